@@ -0,0 +1,194 @@
+// Service worker: keeps the app shell, the last-loaded meeting data and the
+// district's map tiles available offline.
+//
+// Bump SHELL_CACHE when the precached files change; data and tiles carry over.
+const SHELL_CACHE = 'meeting-finder-shell-v1';
+const DATA_CACHE = 'meeting-finder-data';
+// v2 holds CORS tiles; activating drops the padded opaque ones v1 stored
+const TILE_CACHE = 'meeting-finder-tiles-v2';
+
+// Set by the app from the site config when registering
+const params = new URL(self.location.href).searchParams;
+const TILE_HOST = params.get('tileHost') || 'basemaps.cartocdn.com';
+const SHELL_FILES = ['/', '/index.html', '/manifest.webmanifest', params.get('favicon') || '/favicon.svg'];
+
+// Oldest tiles are dropped past this many, roughly 20-30 MB. Tiles are fetched
+// with CORS: opaque responses would count several MB each against the quota.
+const MAX_TILES = 1500;
+
+// Set on stored data responses so the app can tell when it is reading the cache
+const FETCHED_AT_HEADER = 'X-Fetched-At';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_FILES))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const keep = [SHELL_CACHE, DATA_CACHE, TILE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => !keep.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.hostname.endsWith(TILE_HOST)) {
+    event.respondWith(handleTile(request));
+  } else if (url.origin !== self.location.origin) {
+    // Geocoding and other third-party requests go straight to the network
+    return;
+  } else if (url.pathname.endsWith('.csv') || url.pathname.endsWith('.json')) {
+    event.respondWith(handleData(request));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(handleAsset(request));
+  }
+});
+
+// Pages: network first so deploys show up, falling back to the cached shell
+// (every route is served by index.html)
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Build output is content-hashed, so a cached copy is always current
+async function handleAsset(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Meeting CSVs, feeds and coordinates: network first, keeping the last good
+// copy stamped with when it was fetched
+async function handleData(request) {
+  const cache = await caches.open(DATA_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await storeData(cache, request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Keep a copy of a data response, stamped with when it was fetched
+async function storeData(cache, request, response) {
+  const headers = new Headers(response.headers);
+  headers.set(FETCHED_AT_HEADER, new Date().toISOString());
+  const body = await response.blob();
+  await cache.put(request, new Response(body, { status: response.status, statusText: response.statusText, headers }));
+}
+
+// Tiles never change at a given URL, so serve from cache when we have them
+async function handleTile(request) {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(request.url);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok && await putTile(cache, request.url, response.clone())) {
+    await trimTileCache(cache);
+  }
+  return response;
+}
+
+// Store a tile, reporting whether it fit; a full quota shouldn't stop the map
+// showing a tile the network already returned
+async function putTile(cache, url, response) {
+  try {
+    await cache.put(url, response);
+    return true;
+  } catch (error) {
+    console.warn('Could not cache map tile:', error);
+    return false;
+  }
+}
+
+async function trimTileCache(cache) {
+  const keys = await cache.keys();
+  const excess = keys.length - MAX_TILES;
+  if (excess > 0) {
+    await Promise.all(keys.slice(0, excess).map(key => cache.delete(key)));
+  }
+}
+
+// The app sends the tile URLs covering the selected district so the map
+// works offline even for areas that haven't been viewed yet, and once
+// installed, the build assets and meeting data the first visit loaded
+self.addEventListener('message', (event) => {
+  const data = event.data;
+  if (!data) return;
+  if (data.type === 'cache-tiles' && Array.isArray(data.urls)) {
+    event.waitUntil(cacheTiles(data.urls));
+  } else if (data.type === 'cache-files' && Array.isArray(data.assets) && Array.isArray(data.data)) {
+    event.waitUntil(cacheFiles(data.assets, data.data));
+  }
+});
+
+// Store whatever isn't cached yet; data already cached is newer than the first visit's
+async function cacheFiles(assets, data) {
+  const shell = await caches.open(SHELL_CACHE);
+  const dataCache = await caches.open(DATA_CACHE);
+  const missing = async (cache, urls) => {
+    const cached = await Promise.all(urls.map(url => cache.match(url)));
+    return urls.filter((_, index) => !cached[index]);
+  };
+
+  try {
+    await shell.addAll(await missing(shell, assets));
+    for (const url of await missing(dataCache, data)) {
+      const response = await fetch(url);
+      if (response.ok) await storeData(dataCache, url, response);
+    }
+  } catch (error) {
+    // Offline or a full quota; later visits still cache what they fetch
+    console.warn('Could not cache app files:', error);
+  }
+}
+
+async function cacheTiles(urls) {
+  const cache = await caches.open(TILE_CACHE);
+  // One at a time to stay gentle on the tile server
+  for (const url of urls) {
+    if (await cache.match(url)) continue;
+    try {
+      const response = await fetch(url, { mode: 'cors' });
+      if (response.ok && !await putTile(cache, url, response)) break;
+    } catch {
+      // Offline or blocked; the tile is fetched again next time
+      return;
+    }
+  }
+  await trimTileCache(cache);
+}
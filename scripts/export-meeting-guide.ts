@@ -0,0 +1,44 @@
+// Write every CSV district's meetings to public/meeting-guide.json in the
+// Meeting Guide / TSML JSON format, so area websites and neighbouring
+// districts can import our schedule. Runs as part of `npm run build`.
+//
+//   npm run export:meeting-guide
+//
+// Coordinates come from public/coordinates.json (see `npm run geocode`).
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { districts } from '../src/data/districts';
+import { CoordinatesFile, getAddressKey } from '../src/utils/coordinates';
+import { parseMeetingCsvRows, parseMeetingRow } from '../src/utils/meetingCsv';
+import { assignUniqueIds } from '../src/utils/meetingId';
+import { toMeetingGuideFeed } from '../src/utils/meetingGuide';
+import { Meeting } from '../src/types/Meeting';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const outputPath = resolve(root, 'public/meeting-guide.json');
+const coordinatesPath = resolve(root, 'public/coordinates.json');
+
+function main() {
+  const coordinates: CoordinatesFile['coordinates'] = existsSync(coordinatesPath)
+    ? (JSON.parse(readFileSync(coordinatesPath, 'utf8')) as CoordinatesFile).coordinates
+    : {};
+
+  // Only our own CSVs; districts read from someone else's feed stay theirs to publish
+  const csvDistricts = districts.filter(district => district.dataFormat === 'csv');
+  const meetings = csvDistricts.flatMap(district => {
+    const csv = readFileSync(resolve(root, 'public', district.dataPath.replace(/^\//, '')), 'utf8');
+    const { rows } = parseMeetingCsvRows(csv);
+    return assignUniqueIds(rows
+      .map(row => parseMeetingRow(row, district.id))
+      .filter((meeting): meeting is Meeting => meeting !== null))
+      .map(meeting => ({ ...meeting, coordinates: coordinates[getAddressKey(meeting.address)] || null }));
+  });
+
+  const regionNames = Object.fromEntries(csvDistricts.map(district => [district.id, district.name]));
+  const feed = toMeetingGuideFeed(meetings, regionNames);
+  writeFileSync(outputPath, JSON.stringify(feed, null, 2) + '\n');
+  console.log(`Wrote ${feed.length} meetings from ${csvDistricts.length} districts to public/meeting-guide.json`);
+}
+
+main();
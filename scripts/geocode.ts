@@ -0,0 +1,157 @@
+// Geocode every district's addresses once and write public/coordinates.json,
+// so the app can place markers without calling a geocoder in the browser.
+//
+//   npm run geocode                      look up new addresses with Nominatim
+//   npm run geocode -- --refresh         look up every address again
+//   npm run geocode -- --geocoder=fixture [--fixture=path]   offline stand-in
+//   npm run geocode -- --strict          exit non-zero if any address fails
+//   npm run geocode -- --check           resolve everything but leave the file alone
+//
+// `npm run geocode:check` runs the whole pipeline against the committed
+// fixture, so it can be tried without network access.
+//
+// Coordinates in data/coordinate-overrides.json always win over the geocoder.
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import Papa from 'papaparse';
+import { districts } from '../src/data/districts';
+import { CoordinatesFile, getAddressKey } from '../src/utils/coordinates';
+import { Geocoder, createNominatimGeocoder, createFixtureGeocoder } from './geocoders';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const outputPath = resolve(root, 'public/coordinates.json');
+const overridesPath = resolve(root, 'data/coordinate-overrides.json');
+const defaultFixturePath = resolve(root, 'scripts/fixtures/geocoder.json');
+
+interface Options {
+  geocoder: Geocoder;
+  refresh: boolean;
+  strict: boolean;
+  check: boolean;
+}
+
+function parseOptions(args: string[]): Options {
+  const value = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+  const geocoderName = value('geocoder') || 'nominatim';
+
+  let geocoder: Geocoder;
+  if (geocoderName === 'fixture') {
+    geocoder = createFixtureGeocoder(resolve(root, value('fixture') || defaultFixturePath));
+  } else if (geocoderName === 'nominatim') {
+    geocoder = createNominatimGeocoder();
+  } else {
+    throw new Error(`Unknown geocoder "${geocoderName}" (expected "nominatim" or "fixture")`);
+  }
+
+  return {
+    geocoder,
+    refresh: args.includes('--refresh'),
+    strict: args.includes('--strict') || args.includes('--check'),
+    check: args.includes('--check')
+  };
+}
+
+function readJson<T>(path: string, fallback: T): T {
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : fallback;
+}
+
+// Addresses in every district CSV, mapped to the districts that use them
+function collectAddresses(): Map<string, { address: string, districts: Set<string> }> {
+  const addresses = new Map<string, { address: string, districts: Set<string> }>();
+
+  // Meeting Guide feeds carry their own coordinates
+  districts.filter(district => district.dataFormat === 'csv').forEach(district => {
+    const csv = readFileSync(resolve(root, 'public', district.dataPath.replace(/^\//, '')), 'utf8');
+    const { data } = Papa.parse<Record<string, string>>(csv, { header: true, skipEmptyLines: true });
+
+    data.forEach(row => {
+      const address = getAddressKey(row.address || '');
+      if (!address) return;
+      if (!addresses.has(address)) {
+        addresses.set(address, { address, districts: new Set() });
+      }
+      addresses.get(address)!.districts.add(district.name);
+    });
+  });
+
+  return addresses;
+}
+
+// One address per line keeps diffs of the committed file readable
+function formatCoordinatesFile(file: CoordinatesFile): string {
+  const entries = Object.entries(file.coordinates)
+    .map(([address, [lat, lng]]) => `    ${JSON.stringify(address)}: [${lat}, ${lng}]`);
+  return [
+    '{',
+    `  "generatedAt": ${JSON.stringify(file.generatedAt)},`,
+    '  "coordinates": {',
+    entries.join(',\n'),
+    '  }',
+    '}',
+    ''
+  ].join('\n');
+}
+
+async function main() {
+  const options = parseOptions(process.argv.slice(2));
+  const previous = options.refresh
+    ? {}
+    : readJson<CoordinatesFile>(outputPath, { generatedAt: '', coordinates: {} }).coordinates;
+  const overrides = readJson<Record<string, [number, number]>>(overridesPath, {});
+  const overrideByKey = new Map(Object.entries(overrides).map(([address, coords]) => [getAddressKey(address), coords]));
+
+  const addresses = collectAddresses();
+  const coordinates: Record<string, [number, number]> = {};
+  const failures: Array<{ address: string, districts: Set<string>, reason: string }> = [];
+  const counts = { overridden: 0, reused: 0, geocoded: 0 };
+
+  console.log(`Geocoding ${addresses.size} addresses with ${options.geocoder.name}`);
+
+  for (const { address, districts: usedBy } of Array.from(addresses.values()).sort((a, b) => a.address.localeCompare(b.address))) {
+    const override = overrideByKey.get(address);
+    if (override) {
+      coordinates[address] = override;
+      counts.overridden++;
+      continue;
+    }
+    if (previous[address]) {
+      coordinates[address] = previous[address];
+      counts.reused++;
+      continue;
+    }
+
+    try {
+      const result = await options.geocoder.geocode(address);
+      if (result) {
+        coordinates[address] = result;
+        counts.geocoded++;
+      } else {
+        failures.push({ address, districts: usedBy, reason: 'no match' });
+      }
+    } catch (error) {
+      failures.push({ address, districts: usedBy, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (options.check) {
+    console.log(`Resolved ${Object.keys(coordinates).length} coordinates (check only, ${outputPath} left unchanged)`);
+  } else {
+    writeFileSync(outputPath, formatCoordinatesFile({ generatedAt: new Date().toISOString(), coordinates }));
+    console.log(`Wrote ${Object.keys(coordinates).length} coordinates to ${outputPath}`);
+  }
+  console.log(`  ${counts.overridden} from overrides, ${counts.reused} kept from the previous run, ${counts.geocoded} newly geocoded`);
+
+  if (failures.length > 0) {
+    console.log(`\n${failures.length} addresses could not be resolved (add them to data/coordinate-overrides.json):`);
+    failures.forEach(failure => {
+      console.log(`  - ${failure.address} [${Array.from(failure.districts).join(', ')}]: ${failure.reason}`);
+    });
+    if (options.strict) process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,55 @@
+import { readFileSync, existsSync } from 'fs';
+
+export interface Geocoder {
+  name: string;
+  geocode(address: string): Promise<[number, number] | null>;
+}
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
+const USER_AGENT = 'MeetingFinder/1.0 (https://github.com/FinnTeach/find-a-meeting)';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// OpenStreetMap Nominatim, throttled to its one-request-per-second usage policy
+export function createNominatimGeocoder(minIntervalMs = 1100): Geocoder {
+  let lastRequest = 0;
+
+  return {
+    name: 'nominatim',
+    async geocode(address) {
+      const wait = lastRequest + minIntervalMs - Date.now();
+      if (wait > 0) await sleep(wait);
+      lastRequest = Date.now();
+
+      const response = await fetch(
+        `${NOMINATIM_URL}?format=json&q=${encodeURIComponent(address)}&limit=1`,
+        { headers: { 'User-Agent': USER_AGENT } }
+      );
+      if (!response.ok) {
+        throw new Error(`Nominatim responded ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json() as Array<{ lat: string, lon: string }>;
+      if (!data || !data[0]) return null;
+      return [parseFloat(data[0].lat), parseFloat(data[0].lon)];
+    }
+  };
+}
+
+// Offline stand-in that answers from a JSON file of { address: [lat, lng] },
+// for running the pipeline without network access. The committed fixture
+// places New Hampshire addresses at their town centers; it's for checking the
+// pipeline, not for publishing.
+export function createFixtureGeocoder(fixturePath: string): Geocoder {
+  if (!existsSync(fixturePath)) throw new Error(`Fixture ${fixturePath} does not exist`);
+  const fixture: Record<string, [number, number]> = JSON.parse(readFileSync(fixturePath, 'utf8'));
+
+  return {
+    name: `fixture (${fixturePath})`,
+    async geocode(address) {
+      return fixture[address] || null;
+    }
+  };
+}
@@ -0,0 +1,55 @@
+// Check every district CSV against the meeting schema and print a report.
+//
+//   npm run validate                 all districts
+//   npm run validate -- nh-12        one district by id
+//
+// Exits non-zero when any district has errors (warnings alone pass).
+import { readFileSync } from 'fs';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import Papa from 'papaparse';
+import { districts } from '../src/data/districts';
+import { validateMeetingRows, formatIssue } from '../src/utils/validation';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+
+function main() {
+  const requested = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+  // Meeting Guide feeds are maintained on the sites that publish them
+  const csvDistricts = districts.filter(district => district.dataFormat === 'csv');
+  const selected = requested.length > 0
+    ? csvDistricts.filter(district => requested.includes(district.id))
+    : csvDistricts;
+
+  if (selected.length === 0) {
+    console.error(`No CSV district matches ${requested.join(', ')} (known: ${csvDistricts.map(d => d.id).join(', ')})`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let errorCount = 0;
+  let warningCount = 0;
+
+  selected.forEach(district => {
+    const csvPath = resolve(root, 'public', district.dataPath.replace(/^\//, ''));
+    const { data, meta } = Papa.parse<Record<string, string>>(readFileSync(csvPath, 'utf8'), { header: true });
+    const issues = validateMeetingRows(data, meta.fields);
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const warnings = issues.filter(issue => issue.severity === 'warning');
+    errorCount += errors.length;
+    warningCount += warnings.length;
+
+    console.log(`\n${district.name} (${district.dataPath})`);
+    if (issues.length === 0) {
+      console.log('  No problems found');
+      return;
+    }
+    errors.forEach(issue => console.log(`  ERROR    ${formatIssue(issue)}`));
+    warnings.forEach(issue => console.log(`  WARNING  ${formatIssue(issue)}`));
+  });
+
+  console.log(`\n${errorCount} errors, ${warningCount} warnings`);
+  if (errorCount > 0) process.exitCode = 1;
+}
+
+main();
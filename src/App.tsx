@@ -1,16 +1,68 @@
-import { useState, useEffect } from 'react';
-import { Container, Grid, Paper, Typography, Alert, Box, IconButton } from '@mui/material';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
-import { LatLngBounds, DivIcon } from 'leaflet';
-import { ChevronLeft, ChevronRight } from '@mui/icons-material';
+import { useState, useEffect, useRef } from 'react';
+import { Container, Grid, Paper, Typography, Alert, Box, IconButton, Button, FormControlLabel, Switch, ToggleButtonGroup, ToggleButton } from '@mui/material';
+import { MapContainer, TileLayer, Marker, Popup, Circle, CircleMarker, useMap, useMapEvents } from 'react-leaflet';
+import { LatLngBounds, Map as LeafletMap, Marker as LeafletMarker } from 'leaflet';
+import { ChevronLeft, ChevronRight, FileDownload, Print, Map as MapIcon, CalendarViewWeek } from '@mui/icons-material';
 import 'leaflet/dist/leaflet.css';
 import Papa from 'papaparse';
-import { Meeting, TimeOfDay, MeetingType } from './types/Meeting';
+import { Meeting, TimeOfDay, MeetingType, Amenity } from './types/Meeting';
 import FilterControls from './components/FilterControls';
-import MeetingList from './components/MeetingList';
+import MeetingList, { getListItemId } from './components/MeetingList';
+import DistrictSelector from './components/DistrictSelector';
+import HappeningNowControls from './components/HappeningNowControls';
+import AddToCalendarButton from './components/AddToCalendarButton';
+import VirtualAccessDetails from './components/VirtualAccessDetails';
+import NearMeControls, { SearchOrigin } from './components/NearMeControls';
+import MeetingDetailPage from './components/MeetingDetailPage';
+import MeetingEditor from './components/MeetingEditor';
+import PrintSchedule from './components/PrintSchedule';
+import WeekCalendar from './components/WeekCalendar';
+import RouteLink from './components/RouteLink';
+import ViewerTimeNote from './components/ViewerTimeNote';
+import SaveMeetingButton from './components/SaveMeetingButton';
+import SavedMeetingsAlert from './components/SavedMeetingsAlert';
+import AmenityIcons from './components/AmenityIcons';
+import LanguageSelector from './components/LanguageSelector';
+import SiteFooter from './components/SiteFooter';
+import { District, districts, getDistrict, getDistrictsForSelection } from './data/districts';
+import { siteConfig } from './data/siteConfig';
+import { isFullDayRange, getTimeOfDay } from './utils/time';
+import { getFilterSchedule } from './utils/timeZone';
+import { getFilterOptions, matchesFormats } from './utils/filterOptions';
+import { matchesAmenities } from './utils/amenities';
+import { matchesLanguages } from './utils/languages';
+import { findUpcomingMeetings, formatCountdown } from './utils/upcoming';
+import { canExportMeeting, downloadCalendar } from './utils/ics';
+import { assignUniqueIds } from './utils/meetingId';
+import { parseMeetingRow } from './utils/meetingCsv';
+import { parseMeetingGuideFeed } from './utils/meetingGuide';
+import { Route, parseRoute, getMeetingPath, navigate, PRINT_PATH } from './utils/routes';
+import { cleanAddressDisplay } from './utils/address';
+import { createNumberedMarkerIcon, createClusterMarkerIcon } from './utils/markers';
+import { MapLocation, CLUSTER_MAX_ZOOM, clusterLocations, getClusterBounds } from './utils/clusters';
+import { TILE_URL_TEMPLATE, TILE_ATTRIBUTION, TILE_SUBDOMAINS } from './utils/tiles';
+import { getCachedAt, cacheDistrictTiles } from './utils/offline';
+import { UrlState, ResultsView, getDefaultUrlState, readUrlState, writeUrlState } from './utils/urlState';
+import { searchMeetings, getSearchTerms } from './utils/search';
+import { distanceInMiles } from './utils/geo';
+import { getAddressKey } from './utils/coordinates';
+import { geocodeAddress, getCachedCoordinates, loadCoordinatesFile } from './utils/geocoding';
+import { ValidationIssue, validateMeetingRows } from './utils/validation';
+import {
+  SavedMeeting,
+  SavedMeetingChange,
+  createSavedMeeting,
+  readSavedMeetings,
+  writeSavedMeetings,
+  findSavedMeetingChanges,
+  acknowledgeSavedMeetingChanges
+} from './utils/savedMeetings';
+import DataIssuesPanel, { DistrictIssues } from './components/DataIssuesPanel';
+import { useI18n } from './i18n/I18nProvider';
+import { BRAND_COLOR, getSiteText } from './utils/siteConfig';
 
 // Component to fit map bounds to markers
-function FitBounds({ meetings }: { meetings: Meeting[] }) {
+function FitBounds({ meetings, defaultView }: { meetings: Meeting[], defaultView: Pick<District, 'center' | 'zoom'> }) {
   const map = useMap();
   
       useEffect(() => {
@@ -21,8 +73,8 @@ function FitBounds({ meetings }: { meetings: Meeting[] }) {
         // Add a small delay to ensure markers are rendered before fitting bounds
         const timeoutId = setTimeout(() => {
           if (coordinates.length === 0) {
-            // Default to Portland, ME if no coordinates
-            map.setView([43.6591, -70.2568], 10);
+            // Default to the district's own view if no coordinates
+            map.setView(defaultView.center, defaultView.zoom);
             return;
           }
           
@@ -55,17 +107,57 @@ function FitBounds({ meetings }: { meetings: Meeting[] }) {
         }, 100); // 100ms delay
         
         return () => clearTimeout(timeoutId);
-      }, [map, meetings]);
+      }, [map, meetings, defaultView]);
+
+  return null;
+}
+
+interface MapView {
+  bounds: LatLngBounds;
+  zoom: number;
+}
+
+// Component to report the visible map area as the user pans and zooms
+function MapViewTracker({ onViewChange }: { onViewChange: (view: MapView) => void }) {
+  const map = useMapEvents({
+    moveend: () => onViewChange({ bounds: map.getBounds(), zoom: map.getZoom() })
+  });
+  
+  useEffect(() => {
+    onViewChange({ bounds: map.getBounds(), zoom: map.getZoom() });
+  }, [map]);
 
   return null;
 }
 
 // Component for scrollable meeting popup
-function MeetingPopup({ meetings }: { meetings: Meeting[] }) {
-  const [currentIndex, setCurrentIndex] = useState(0);
+function MeetingPopup({ meetings, selectedKey, onSelect, savedIds, onToggleSaved }: {
+  meetings: Meeting[],
+  selectedKey?: string,
+  onSelect?: (meeting: Meeting) => void,
+  savedIds?: Set<string>,
+  onToggleSaved?: (meeting: Meeting) => void
+}) {
+  const { t, formatDay, formatMeetingTime } = useI18n();
+  // Start on the meeting named in the URL when it's at this location
+  const [currentIndex, setCurrentIndex] = useState(() => 
+    Math.max(0, meetings.findIndex(meeting => meeting.id === selectedKey))
+  );
   const currentMeeting = meetings[currentIndex];
   const isMultiple = meetings.length > 1;
 
+  useEffect(() => {
+    onSelect && onSelect(currentMeeting);
+  }, [currentMeeting]);
+
+  // Follow meetings picked in the list while this popup is open
+  useEffect(() => {
+    const index = meetings.findIndex(meeting => meeting.id === selectedKey);
+    if (index !== -1 && index !== currentIndex) {
+      setCurrentIndex(index);
+    }
+  }, [selectedKey]);
+
   const nextMeeting = () => {
     setCurrentIndex((prev) => (prev + 1) % meetings.length);
   };
@@ -94,7 +186,7 @@ function MeetingPopup({ meetings }: { meetings: Meeting[] }) {
             <ChevronLeft />
           </IconButton>
           <Typography variant="caption" sx={{ fontWeight: 'bold' }}>
-            {currentIndex + 1} of {meetings.length} meetings
+            {t('popup.position', { index: currentIndex + 1, count: meetings.length })}
           </Typography>
           <IconButton 
             size="small" 
@@ -106,42 +198,47 @@ function MeetingPopup({ meetings }: { meetings: Meeting[] }) {
         </Box>
       )}
       
-      <Typography variant="subtitle1" sx={{ fontWeight: 'bold', mb: 1 }}>
-        {currentMeeting.name}
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 0.5, mb: 1 }}>
+        <Typography variant="subtitle1" sx={{ fontWeight: 'bold', flex: 1 }}>
+          {currentMeeting.name}
+        </Typography>
+        {onToggleSaved && (
+          <SaveMeetingButton
+            saved={!!savedIds?.has(currentMeeting.id)}
+            onToggle={() => onToggleSaved(currentMeeting)}
+          />
+        )}
+      </Box>
       
       <Typography variant="body2" sx={{ color: 'text.primary', mb: 0.5, fontWeight: 'medium' }}>
-        {currentMeeting.day ? currentMeeting.day.charAt(0).toUpperCase() + currentMeeting.day.slice(1) : 'Unknown day'} at {currentMeeting.timeDisplay}
+        {t('meeting.when', { day: formatDay(currentMeeting.day), time: formatMeetingTime(currentMeeting) })}
       </Typography>
+      <ViewerTimeNote meeting={currentMeeting} />
       
       <Typography variant="body2" sx={{ color: 'text.primary', mb: 0.5 }}>
         {cleanAddressDisplay(currentMeeting.address)}
       </Typography>
       
-      {(currentMeeting.zoomId || (currentMeeting.notes && currentMeeting.notes.includes('Zoom ID'))) && (
+      {currentMeeting.type !== 'virtual' && (
         <Box sx={{ mb: 0.5 }}>
-          {createZoomLink(currentMeeting) ? (
-            <Typography variant="body2" sx={{ color: 'text.primary' }}>
-              <a 
-                href={createZoomLink(currentMeeting)!} 
-                target="_blank" 
-                rel="noopener noreferrer"
-                style={{ 
-                  color: '#1976d2', 
-                  textDecoration: 'none',
-                  fontWeight: 'medium'
-                }}
-                onMouseEnter={(e) => e.currentTarget.style.textDecoration = 'underline'}
-                onMouseLeave={(e) => e.currentTarget.style.textDecoration = 'none'}
-              >
-                🎥 Join Zoom Meeting
-              </a>
-            </Typography>
-          ) : (
-            <Typography variant="body2" sx={{ color: 'text.primary' }}>
-              Zoom: {currentMeeting.zoomId}
-            </Typography>
-          )}
+          <AmenityIcons amenities={currentMeeting.amenities} />
+        </Box>
+      )}
+      
+      <Typography variant="caption" sx={{ display: 'block', color: 'text.secondary', mb: 0.5 }}>
+        {getDistrict(currentMeeting.district)?.name}
+      </Typography>
+      
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 0.5 }}>
+        <AddToCalendarButton meeting={currentMeeting} />
+        <RouteLink to={getMeetingPath(currentMeeting.id)} style={{ fontSize: '0.8125rem' }}>
+          {t('meeting.moreDetails')}
+        </RouteLink>
+      </Box>
+      
+      {currentMeeting.virtualAccess && (
+        <Box sx={{ mb: 0.5 }}>
+          <VirtualAccessDetails access={currentMeeting.virtualAccess} />
         </Box>
       )}
       
@@ -154,7 +251,7 @@ function MeetingPopup({ meetings }: { meetings: Meeting[] }) {
       {isMultiple && meetings.length > 1 && (
         <Box sx={{ mt: 1, pt: 1, borderTop: '1px solid #e0e0e0' }}>
           <Typography variant="caption" sx={{ color: 'text.secondary' }}>
-            Use arrows above to view other meetings at this location
+            {t('popup.moreHere')}
           </Typography>
         </Box>
       )}
@@ -162,64 +259,8 @@ function MeetingPopup({ meetings }: { meetings: Meeting[] }) {
   );
 }
 
-// Geocoding cache to avoid re-geocoding same addresses
-const geocodingCache = new Map<string, [number, number] | null>();
-
-// Pre-populate cache with known Maine addresses for faster loading
-const preloadedCoordinates = {
-  "515 Woodford Street, Portland, ME 04103": [43.6591, -70.2568],
-  "279 Congress St, Portland, ME 04101": [43.6578, -70.2583],
-  "25 Church Avenue, Peaks Island, ME 04108": [43.6567, -70.2000],
-  "43 Foreside Rd, Falmouth, ME 04105": [43.7297, -70.2400],
-  "22 Church Hill Road, Buxton, ME 04093": [43.6378, -70.5189],
-  "656 US Route 1, Scarborough, ME 04074": [43.5781, -70.3222],
-  "102 Bishop Street, Portland, ME 04103": [43.6589, -70.2578],
-  "40 Main St, Freeport, ME 04032": [43.8570, -70.1031],
-  "15 Casco Street, Portland, ME 04101": [43.6572, -70.2589],
-  "24 North Raymond Road, Gray, ME 04039": [43.8856, -70.3317],
-  "301 Cottage Road, South Portland, ME 04106": [43.6411, -70.2406],
-  "1311 Roosevelt Trail, Raymond, ME 04071": [43.9011, -70.4700]
-};
-
-// Initialize cache with preloaded coordinates
-Object.entries(preloadedCoordinates).forEach(([address, coords]) => {
-  geocodingCache.set(address, coords as [number, number]);
-});
-
-// Function to create custom marker icon with number
-function createNumberedMarkerIcon(count: number, isMultiple: boolean) {
-  const size = isMultiple ? 40 : 30;
-  const color = isMultiple ? '#ff6b35' : '#4caf50';
-  const textColor = '#ffffff';
-  
-  return new DivIcon({
-    className: 'custom-marker',
-    html: `
-      <div style="
-        background-color: ${color};
-        width: ${size}px;
-        height: ${size}px;
-        border-radius: 50%;
-        border: 3px solid white;
-        display: flex;
-        align-items: center;
-        justify-content: center;
-        font-weight: bold;
-        font-size: ${isMultiple ? '14px' : '12px'};
-        color: ${textColor};
-        box-shadow: 0 2px 4px rgba(0,0,0,0.3);
-      ">
-        ${count}
-      </div>
-    `,
-    iconSize: [size, size],
-    iconAnchor: [size / 2, size / 2],
-    popupAnchor: [0, -size / 2]
-  });
-}
-
 // Function to group meetings by coordinates
-function groupMeetingsByLocation(meetings: Meeting[]): Array<{ coordinates: [number, number], meetings: Meeting[] }> {
+function groupMeetingsByLocation(meetings: Meeting[]): MapLocation[] {
   const locationMap = new Map<string, Meeting[]>();
   
   meetings.forEach(meeting => {
@@ -241,223 +282,535 @@ function groupMeetingsByLocation(meetings: Meeting[]): Array<{ coordinates: [num
   });
 }
 
-// Function to clean up address display (remove state and zip)
-function cleanAddressDisplay(address: string): string {
-  if (!address) return '';
-  
-  // Remove state and zip code patterns like ", ME 04032" or ", Maine 04032"
-  return address
-    .replace(/,\s*ME\s+\d{5}(-\d{4})?/gi, '') // Remove ", ME 04032" or ", ME 04032-1234"
-    .replace(/,\s*Maine\s+\d{5}(-\d{4})?/gi, '') // Remove ", Maine 04032"
-    .replace(/,\s*ME$/gi, '') // Remove trailing ", ME"
-    .replace(/,\s*Maine$/gi, '') // Remove trailing ", Maine"
-    .trim();
+interface LoadedDistrict {
+  district: District;
+  meetings: Meeting[];
+  issues: ValidationIssue[]; // only checked in dev builds
+  cachedAt: Date | null; // set when read from the offline cache
 }
 
-// Function to create Zoom link from meeting data
-function createZoomLink(meeting: Meeting): string | null {
-  // Look for Zoom information in notes field (where it's actually stored)
-  const zoomText = meeting.notes || meeting.zoomId || '';
-  if (!zoomText) return null;
-  
-  // Extract meeting ID from notes or zoomId
-  const meetingIdMatch = zoomText.match(/Zoom ID:\s*(\d{9,11})/i);
-  if (!meetingIdMatch) return null;
-  
-  const meetingId = meetingIdMatch[1];
-  
-  // Look for password in the same text
-  let password = '';
-  const passwordMatch = zoomText.match(/[Pp]asscode?:\s*(\d+)/i);
-  if (passwordMatch) {
-    password = passwordMatch[1];
-  }
-  
-  // Create Zoom link
-  if (password) {
-    return `https://zoom.us/j/${meetingId}?pwd=${password}`;
-  } else {
-    return `https://zoom.us/j/${meetingId}`;
-  }
-}
+const isDevBuild = Boolean((import.meta as any).env?.DEV);
 
-// Add geocoding function with caching
-async function geocodeAddress(address: string): Promise<[number, number] | null> {
-  if (!address) return null;
-  
-      // Check cache first
-      if (geocodingCache.has(address)) {
-        return geocodingCache.get(address)!;
-      }
-  
-  try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(address)}&limit=1&addressdetails=1`,
-      {
-        headers: {
-          'User-Agent': 'MeetingFinder/1.0 (https://github.com/FinnTeach/find-a-meeting)'
-        }
-      }
-    );
-    
-        if (!response.ok) {
-          geocodingCache.set(address, null);
-          return null;
-        }
+// Parse a district CSV into meetings tagged with that district
+function parseMeetingsCsv(csv: string, district: District, cachedAt: Date | null): Promise<LoadedDistrict> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(csv, {
+      header: true,
+      complete: (results) => {
+        const parsedMeetings = assignUniqueIds(results.data
+          .map(row => parseMeetingRow(row, district.id))
+          .filter((meeting): meeting is Meeting => meeting !== null));
         
-        const data = await response.json();
+        // Report times we couldn't read so the CSV can be fixed
+        parsedMeetings
+          .filter(meeting => meeting.startMinutes === null)
+          .forEach(meeting => {
+            console.warn(`${district.name}: could not parse time "${meeting.timeDisplay}" for ${meeting.name}`);
+          });
         
-        if (data && data[0]) {
-          const coordinates: [number, number] = [parseFloat(data[0].lat), parseFloat(data[0].lon)];
-          geocodingCache.set(address, coordinates);
-          return coordinates;
-        }
+        // Run the full schema check while developing, same as `npm run validate`
+        const issues = isDevBuild ? validateMeetingRows(results.data, results.meta.fields) : [];
         
-        geocodingCache.set(address, null);
-        return null;
-      } catch (error) {
-        geocodingCache.set(address, null);
-        return null;
+        resolve({ district, meetings: parsedMeetings, issues, cachedAt });
+      },
+      error: (error: Error) => {
+        console.error('CSV parsing error:', error);
+        reject(new Error('Error parsing CSV file'));
       }
+    });
+  });
+}
+
+// Add the coordinates already known (build-time sidecar or earlier lookups) to meetings
+function withKnownCoordinates(meetings: Meeting[]): Meeting[] {
+  return meetings.map(meeting => {
+    if (!meeting.address || meeting.coordinates) return meeting;
+    const coordinates = getCachedCoordinates(meeting.address);
+    return coordinates ? { ...meeting, coordinates } : meeting;
+  });
 }
 
-// Validate meeting data
-function validateMeeting(meeting: any): Meeting | null {
-  if (!meeting || !meeting.name || meeting.name.trim() === '') return null;
+// Loaded districts, so switching back and forth doesn't refetch
+const districtMeetingsCache = new Map<string, Promise<LoadedDistrict>>();
+
+// Load and parse one district's meetings (cached per district)
+function loadDistrictMeetings(district: District): Promise<LoadedDistrict> {
+  const cached = districtMeetingsCache.get(district.id);
+  if (cached) return cached;
   
-  return {
-    name: meeting.name.trim(),
-    description: meeting.description || '',
-    day: meeting.day || '',
-    time: (meeting.time as TimeOfDay) || 'morning',
-    timeDisplay: meeting.timeDisplay || '',
-    type: (meeting.type as MeetingType) || 'in-Person',
-    address: meeting.address || '',
-    Contact: meeting.Contact || '',
-    zoomId: meeting.Zoomid || meeting.zoomId || '',
-    notes: meeting.Notes || meeting.notes || '',
-    format: meeting.format || '',
-    coordinates: meeting.coordinates || null
-  };
+  const loading = fetch(district.dataPath)
+    .then(response => {
+      if (!response.ok) {
+        throw new Error('Failed to load meetings data');
+      }
+      const cachedAt = getCachedAt(response);
+      if (district.dataFormat === 'meeting-guide') {
+        return response.json().then(feed => ({
+          district,
+          meetings: assignUniqueIds(parseMeetingGuideFeed(feed, district.id)),
+          issues: [],
+          cachedAt
+        }));
+      }
+      return response.text().then(csv => parseMeetingsCsv(csv, district, cachedAt));
+    });
+  
+  // Don't keep failed loads around so a later switch can retry
+  loading.catch(() => districtMeetingsCache.delete(district.id));
+  districtMeetingsCache.set(district.id, loading);
+  return loading;
 }
 
+const defaultDistrictId = (import.meta as any).env?.VITE_DEFAULT_DISTRICT || siteConfig.defaultDistrict;
+
+// Filters and opened meeting restored from the link the page was opened with
+const defaultUrlState = getDefaultUrlState(defaultDistrictId);
+const initialUrlState = readUrlState(window.location.search, defaultUrlState);
+
 function App() {
+  const { locale, t } = useI18n();
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+  const [selectedDistrict, setSelectedDistrict] = useState<string>(initialUrlState.district);
   const [meetings, setMeetings] = useState<Meeting[]>([]);
   const [filteredMeetings, setFilteredMeetings] = useState<Meeting[]>([]);
-  const [selectedDay, setSelectedDay] = useState<string>('');
-  const [selectedTime, setSelectedTime] = useState<TimeOfDay | ''>('');
-  const [selectedType, setSelectedType] = useState<MeetingType | ''>('');
-  const [selectedFormat, setSelectedFormat] = useState<string>('');
+  const [searchQuery, setSearchQuery] = useState<string>(initialUrlState.query);
+  const [selectedDays, setSelectedDays] = useState<string[]>(initialUrlState.day);
+  const [selectedTimes, setSelectedTimes] = useState<TimeOfDay[]>(initialUrlState.time);
+  const [selectedTypes, setSelectedTypes] = useState<MeetingType[]>(initialUrlState.type);
+  const [selectedFormats, setSelectedFormats] = useState<string[]>(initialUrlState.format);
+  const [selectedAmenities, setSelectedAmenities] = useState<Amenity[]>(initialUrlState.amenity);
+  const [selectedLanguages, setSelectedLanguages] = useState<string[]>(initialUrlState.lang);
+  const [startRange, setStartRange] = useState<[number, number]>(initialUrlState.startRange);
+  const [happeningNow, setHappeningNow] = useState<boolean>(initialUrlState.happeningNow);
+  const [nowWindow, setNowWindow] = useState<number>(initialUrlState.nowWindow);
+  const [selectedMeetingKey, setSelectedMeetingKey] = useState<string>(initialUrlState.meeting);
+  const [view, setView] = useState<ResultsView>(initialUrlState.view);
+  const [showSaved, setShowSaved] = useState<boolean>(initialUrlState.mine);
+  const [savedMeetings, setSavedMeetings] = useState<SavedMeeting[]>(readSavedMeetings);
+  const [savedChanges, setSavedChanges] = useState<SavedMeetingChange[]>([]);
+  const markerRefs = useRef(new Map<string, LeafletMarker>());
+  const [hoveredMeetingKey, setHoveredMeetingKey] = useState<string>('');
+  // Where the last selection came from; only map selections scroll the list
+  const selectionSource = useRef<'map' | 'list' | null>(null);
+  const listContainerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<LeafletMap>(null);
+  const [mapView, setMapView] = useState<MapView | null>(null);
+  // "Search this area": the list follows the map instead of the map following the list
+  const [searchMapArea, setSearchMapArea] = useState<boolean>(false);
+  const [now, setNow] = useState<Date>(() => new Date());
+  const [countdowns, setCountdowns] = useState<Map<Meeting, string>>(new Map());
+  const [origin, setOrigin] = useState<SearchOrigin | null>(null);
+  const [radiusMiles, setRadiusMiles] = useState<number>(0);
+  const [distances, setDistances] = useState<Map<Meeting, number>>(new Map());
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [pendingGeocodes, setPendingGeocodes] = useState<number>(0);
+  const [dataIssues, setDataIssues] = useState<DistrictIssues[]>([]);
+  const [dataAsOf, setDataAsOf] = useState<Date | null>(null);
+
+  // Filter state as it appears in the URL on the home route
+  const currentUrlState: UrlState = {
+    district: selectedDistrict,
+    query: searchQuery,
+    day: selectedDays,
+    time: selectedTimes,
+    type: selectedTypes,
+    format: selectedFormats,
+    amenity: selectedAmenities,
+    lang: selectedLanguages,
+    startRange,
+    happeningNow,
+    nowWindow,
+    mine: showSaved,
+    meeting: selectedMeetingKey,
+    view
+  };
+
+  // Saved meetings by ID, including ones that moved to a new ID since they were saved
+  const savedIds = new Set([
+    ...savedMeetings.map(entry => entry.id),
+    ...savedChanges.flatMap(change => change.meeting ? [change.meeting.id] : [])
+  ]);
+
+  // "My meetings" lists saved meetings from every district, so their districts
+  // are loaded alongside the selection while it's on, e.g. "me-s2,nh-12"
+  const savedDistrictsToLoad = showSaved
+    ? Array.from(new Set(savedMeetings.map(entry => entry.district))).sort().join(',')
+    : '';
+
+  // Function to add or remove a meeting from "my meetings"
+  const toggleSavedMeeting = (meeting: Meeting) => {
+    const entryId = savedChanges.find(change => change.meeting?.id === meeting.id)?.saved.id || meeting.id;
+    const next = savedIds.has(meeting.id)
+      ? savedMeetings.filter(entry => entry.id !== entryId)
+      : [...savedMeetings, createSavedMeeting(meeting)];
+    setSavedMeetings(next);
+    setSavedChanges(changes => changes.filter(change => change.saved.id !== entryId));
+    writeSavedMeetings(next);
+  };
+
+  // Function to record that the changed saved meetings have been seen
+  const acknowledgeSavedChanges = () => {
+    const next = acknowledgeSavedMeetingChanges(savedMeetings, savedChanges);
+    setSavedMeetings(next);
+    setSavedChanges([]);
+    writeSavedMeetings(next);
+  };
 
   useEffect(() => {
-    // Load and parse CSV file
-    const csvPath = (import.meta as any).env?.VITE_MEETINGS_CSV || '/ME_District_S2_AlAnon_Meetings.csv';
-    fetch(csvPath)
-      .then(response => {
-        if (!response.ok) {
-          throw new Error('Failed to load meetings data');
-        }
-        return response.text();
-      })
-      .then(csv => {
-        Papa.parse(csv, {
-          header: true,
-          complete: async (results) => {
-            try {
-              const parsedMeetings = results.data
-                .map(validateMeeting)
-                .filter((meeting): meeting is Meeting => meeting !== null);
-              
-              // Add coordinates to meetings with addresses (aggressively optimized)
-              const meetingsWithCoordinates = [];
-              const addressesToGeocode = parsedMeetings
-                .filter(meeting => meeting.address && !geocodingCache.has(meeting.address))
-                .map(meeting => meeting.address);
-              
-              
-              // Process ALL addresses concurrently - no delays, no batching
-              if (addressesToGeocode.length > 0) {
-                await Promise.all(addressesToGeocode.map(address => geocodeAddress(address)));
-              }
-              
-              // Now assign coordinates to all meetings
-              for (const meeting of parsedMeetings) {
-                if (meeting.address) {
-                  const coordinates = geocodingCache.get(meeting.address) || null;
-                  meetingsWithCoordinates.push({ ...meeting, coordinates });
-                } else {
-                  meetingsWithCoordinates.push(meeting);
-                }
-              }
-              
-              
-              setMeetings(meetingsWithCoordinates);
-              setFilteredMeetings(meetingsWithCoordinates);
-              setIsLoading(false);
-            } catch (err) {
-              setError('Error processing meetings data');
-              console.error('Error processing meetings:', err);
-            }
-          },
-          error: (error: Error) => {
-            setError('Error parsing CSV file');
-            console.error('CSV parsing error:', error);
-          }
+    // Load every district covered by the selection and merge their meetings
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    
+    // A meeting page can link to any district's meeting, so it loads them all
+    const selection = getDistrictsForSelection(selectedDistrict);
+    const districtsToLoad = route.name === 'meeting'
+      ? districts
+      : [...selection, ...districts.filter(district => !selection.includes(district) && savedDistrictsToLoad.split(',').includes(district.id))];
+    
+    // One district failing (offline and uncached, or a feed that's down) still shows the others
+    Promise.all([loadCoordinatesFile(), Promise.allSettled(districtsToLoad.map(loadDistrictMeetings))])
+      .then(([, settled]) => {
+        if (cancelled) return;
+        const results = settled
+          .filter((result): result is PromiseFulfilledResult<LoadedDistrict> => result.status === 'fulfilled')
+          .map(result => result.value);
+        const failed = districtsToLoad.filter((_, index) => settled[index].status === 'rejected');
+        settled.forEach((result, index) => {
+          if (result.status === 'rejected') console.error(`Error loading ${districtsToLoad[index].name}:`, result.reason);
         });
+        if (results.length === 0) {
+          throw (settled[0] as PromiseRejectedResult).reason;
+        }
+        if (failed.length > 0) {
+          setError(t('app.partialLoadError', { districts: failed.map(district => district.name).join(', ') }));
+        }
+        const merged = withKnownCoordinates(results.flatMap(result => result.meetings));
+        setDataIssues(results.map(result => ({ districtName: result.district.name, issues: result.issues })));
+        
+        // Oldest cached copy, if any district came from the offline cache
+        const cachedDates = results.map(result => result.cachedAt).filter((date): date is Date => date !== null);
+        setDataAsOf(cachedDates.length > 0 ? new Date(Math.min(...cachedDates.map(date => date.getTime()))) : null);
+        cacheDistrictTiles(results.map(result => result.district));
+        // Read from storage rather than state, which may have changed since this load began
+        setSavedChanges(findSavedMeetingChanges(readSavedMeetings(), merged, results.map(result => result.district.id)));
+        setMeetings(merged);
+        setFilteredMeetings(merged);
+        setIsLoading(false);
       })
       .catch(err => {
-        setError('Failed to load meetings data');
-        console.error('Fetch error:', err);
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : t('app.loadError'));
+        setIsLoading(false);
+        console.error('Error loading meetings:', err);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDistrict, route.name, savedDistrictsToLoad]);
+
+  useEffect(() => {
+    // Geocode addresses the sidecar doesn't cover, adding each marker as soon as it resolves
+    let cancelled = false;
+    const pending = Array.from(new Set(meetings
+      .filter(meeting => meeting.address && !meeting.coordinates && getCachedCoordinates(meeting.address) === undefined)
+      .map(meeting => getAddressKey(meeting.address))));
+    setPendingGeocodes(pending.length);
+    
+    pending.forEach(address => {
+      geocodeAddress(address).then(coordinates => {
+        if (cancelled) return;
+        if (!coordinates) {
+          setPendingGeocodes(count => Math.max(0, count - 1));
+          return;
+        }
+        setMeetings(prev => prev.map(meeting =>
+          meeting.address && getAddressKey(meeting.address) === address ? { ...meeting, coordinates } : meeting
+        ));
       });
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [meetings]);
+
+  useEffect(() => {
+    // Follow route changes, and restore filters when the browser's back/forward buttons change the URL
+    const applyUrlState = (state: UrlState) => {
+      setSelectedDistrict(state.district);
+      setSearchQuery(state.query);
+      setSelectedDays(state.day);
+      setSelectedTimes(state.time);
+      setSelectedTypes(state.type);
+      setSelectedFormats(state.format);
+      setSelectedAmenities(state.amenity);
+      setSelectedLanguages(state.lang);
+      setStartRange(state.startRange);
+      setHappeningNow(state.happeningNow);
+      setNowWindow(state.nowWindow);
+      setShowSaved(state.mine);
+      setSelectedMeetingKey(state.meeting);
+      setView(state.view);
+    };
+    const handlePopState = () => {
+      const nextRoute = parseRoute(window.location.pathname);
+      setRoute(nextRoute);
+      if (nextRoute.name === 'home') {
+        applyUrlState(readUrlState(window.location.search, defaultUrlState));
+      }
+    };
+    
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
   }, []);
 
+  useEffect(() => {
+    // Record filter changes in the URL so the view can be shared and navigated with back/forward
+    if (route.name !== 'home') return;
+    const query = writeUrlState(currentUrlState, defaultUrlState);
+    if (query === window.location.search) return;
+    
+    // Debounce so dragging the time slider doesn't flood the history
+    const timeoutId = setTimeout(() => {
+      window.history.pushState(null, '', `${window.location.pathname}${query}${window.location.hash}`);
+    }, 400);
+    return () => clearTimeout(timeoutId);
+  }, [route.name, selectedDistrict, searchQuery, selectedDays, selectedTimes, selectedTypes, selectedFormats, selectedAmenities, selectedLanguages, startRange, happeningNow, nowWindow, showSaved, selectedMeetingKey, view]);
+
+  useEffect(() => {
+    // Open (or close) the popup of the meeting named in the URL once its marker is on the map
+    if (isLoading) return;
+    
+    const timeoutId = setTimeout(() => {
+      if (!selectedMeetingKey) {
+        markerRefs.current.forEach(marker => marker.isPopupOpen() && marker.closePopup());
+        return;
+      }
+      
+      const meeting = filteredMeetings.find(meeting => meeting.id === selectedMeetingKey);
+      const marker = meeting?.coordinates && markerRefs.current.get(meeting.coordinates.join(','));
+      if (marker && !marker.isPopupOpen()) {
+        marker.openPopup();
+      }
+    }, 200); // after FitBounds has settled the view
+    
+    return () => clearTimeout(timeoutId);
+  }, [selectedMeetingKey, filteredMeetings, isLoading, route.name]);
+
+  useEffect(() => {
+    // Bring a meeting picked on the map into view in the list (without scrolling the page)
+    if (!selectedMeetingKey || selectionSource.current !== 'map') return;
+    const meeting = filteredMeetings.find(meeting => meeting.id === selectedMeetingKey);
+    const container = listContainerRef.current;
+    const item = meeting && document.getElementById(getListItemId(meeting));
+    if (!container || !item) return;
+    
+    const containerRect = container.getBoundingClientRect();
+    const itemRect = item.getBoundingClientRect();
+    if (itemRect.top < containerRect.top || itemRect.bottom > containerRect.bottom) {
+      container.scrollBy({ top: itemRect.top - containerRect.top - 8, behavior: 'smooth' });
+    }
+  }, [selectedMeetingKey]);
+
+  useEffect(() => {
+    // Keep the device clock fresh while "happening now" is on
+    if (!happeningNow) return;
+    setNow(new Date());
+    const intervalId = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(intervalId);
+  }, [happeningNow]);
+
   useEffect(() => {
     // Filter meetings based on selected criteria
     let filtered = [...meetings];
     
-    if (selectedDay) {
+    // Virtual and hybrid meetings are filtered on the viewer's local day and time
+    const currentTime = new Date();
+    const schedules = new Map(meetings.map(meeting => [meeting, getFilterSchedule(meeting, currentTime)]));
+    
+    // "Happening now" replaces the day and time filters with the device clock.
+    // Several values in one filter match any of them.
+    if (selectedDays.length > 0 && !happeningNow) {
       filtered = filtered.filter(meeting => {
-        const meetingDay = meeting.day?.toLowerCase() || '';
-        return meetingDay === selectedDay.toLowerCase();
+        const meetingDay = schedules.get(meeting)?.day || meeting.day?.trim().toLowerCase() || '';
+        return selectedDays.includes(meetingDay);
       });
     }
     
-    if (selectedTime) {
+    if (selectedTimes.length > 0 && !happeningNow) {
       filtered = filtered.filter(meeting => {
-        const meetingTime = meeting.time || '';
-        return meetingTime === selectedTime;
+        const schedule = schedules.get(meeting);
+        return selectedTimes.includes(schedule ? getTimeOfDay(schedule.startMinutes) : meeting.time);
       });
     }
     
-    if (selectedType) {
-      filtered = filtered.filter(meeting => {
-        const meetingType = meeting.type || '';
-        return meetingType === selectedType;
-      });
+    if (selectedTypes.length > 0) {
+      filtered = filtered.filter(meeting => selectedTypes.includes(meeting.type));
+    }
+    
+    if (selectedFormats.length > 0) {
+      filtered = filtered.filter(meeting => matchesFormats(meeting, selectedFormats));
+    }
+    
+    if (selectedAmenities.length > 0) {
+      filtered = filtered.filter(meeting => matchesAmenities(meeting, selectedAmenities));
     }
     
-    if (selectedFormat) {
+    if (selectedLanguages.length > 0) {
+      filtered = filtered.filter(meeting => matchesLanguages(meeting, selectedLanguages));
+    }
+    
+    if (!isFullDayRange(startRange) && !happeningNow) {
       filtered = filtered.filter(meeting => {
-        const meetingFormat = (meeting.format || '').toLowerCase();
-        return meetingFormat === selectedFormat.toLowerCase();
+        const schedule = schedules.get(meeting);
+        if (!schedule) return false;
+        return schedule.startMinutes >= startRange[0] && schedule.startMinutes <= startRange[1];
       });
     }
     
+    if (showSaved) {
+      filtered = filtered.filter(meeting => savedIds.has(meeting.id));
+    }
+    
     // Remove any meetings with empty or undefined names
     filtered = filtered.filter(meeting => meeting.name && meeting.name.trim() !== '');
     
+    // Search narrows the filtered meetings and orders them by relevance
+    if (searchQuery.trim()) {
+      filtered = searchMeetings(filtered, searchQuery);
+    }
+    
+    // Near a location: measure each map location once, then filter by radius and sort nearest first
+    if (origin) {
+      const distanceByMeeting = new Map<Meeting, number>();
+      groupMeetingsByLocation(filtered).forEach(location => {
+        const miles = distanceInMiles(origin.coordinates, location.coordinates);
+        location.meetings.forEach(meeting => distanceByMeeting.set(meeting, miles));
+      });
+      const getDistance = (meeting: Meeting) => distanceByMeeting.get(meeting) ?? Number.MAX_VALUE;
+      
+      // Virtual meetings can be joined from anywhere, so the radius doesn't apply to them
+      if (radiusMiles) {
+        filtered = filtered.filter(meeting => meeting.type === 'virtual' || getDistance(meeting) <= radiusMiles);
+      }
+      filtered = [...filtered].sort((a, b) => getDistance(a) - getDistance(b));
+      setDistances(distanceByMeeting);
+    } else {
+      setDistances(new Map());
+    }
+    
+    if (happeningNow) {
+      const upcoming = findUpcomingMeetings(filtered, now, nowWindow);
+      filtered = upcoming.map(item => item.meeting);
+      setCountdowns(new Map(upcoming.map(item => [item.meeting, formatCountdown(item, locale)])));
+    } else {
+      setCountdowns(new Map());
+    }
+    
     setFilteredMeetings(filtered);
-  }, [selectedDay, selectedTime, selectedType, selectedFormat, meetings]);
+  }, [searchQuery, selectedDays, selectedTimes, selectedTypes, selectedFormats, selectedAmenities, selectedLanguages, startRange, happeningNow, nowWindow, now, origin, radiusMiles, meetings, showSaved, savedMeetings, savedChanges, locale]);
+
+  // Filter choices and counts from the loaded meetings
+  const filterOptions = getFilterOptions(meetings, {
+    days: selectedDays,
+    times: selectedTimes,
+    types: selectedTypes,
+    formats: selectedFormats,
+    amenities: selectedAmenities,
+    languages: selectedLanguages
+  }, now, locale);
+
+  // Map view to fall back on when no meetings have coordinates
+  const defaultView = getDistrict(selectedDistrict) || siteConfig.map;
+
+  // Meetings shown in the list; with "search this area" on, only those in view.
+  // Virtual meetings have no place on the map and can be joined from anywhere.
+  const listedMeetings = searchMapArea && mapView
+    ? filteredMeetings.filter(meeting =>
+      meeting.type === 'virtual' || (meeting.coordinates && mapView.bounds.contains(meeting.coordinates))
+    )
+    : filteredMeetings;
+
+  // Nearby locations merge into numbered clusters until zoomed in; the selected
+  // location stays apart so its popup can open
+  const locationClusters = clusterLocations(
+    groupMeetingsByLocation(filteredMeetings),
+    mapView ? mapView.zoom : defaultView.zoom,
+    location => location.meetings.some(meeting => meeting.id === selectedMeetingKey)
+  );
+  const isHighlightedMeeting = (meeting: Meeting) =>
+    meeting.id === hoveredMeetingKey || meeting.id === selectedMeetingKey;
+
+  // Shown when the schedule came from the offline cache
+  const offlineNotice = dataAsOf && (
+    <Alert severity="warning" sx={{ mb: 2 }}>
+      {t('app.offline', { date: dataAsOf.toLocaleDateString(locale, { dateStyle: 'medium' }) })}
+    </Alert>
+  );
+
+  if (route.name === 'editor') {
+    return (
+      <Container maxWidth="lg" sx={{ py: 4 }}>
+        <MeetingEditor onBack={() => navigate('/')} />
+      </Container>
+    );
+  }
+
+  if (route.name === 'print') {
+    const district = getDistrict(selectedDistrict);
+    const homeQuery = writeUrlState({ ...currentUrlState, meeting: '' }, defaultUrlState);
+    return (
+      <Container maxWidth="md" sx={{ py: 4, '@media print': { py: 0, maxWidth: 'none' } }}>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2, displayPrint: 'none' }}>
+            {error}
+          </Alert>
+        )}
+        <PrintSchedule
+          meetings={listedMeetings}
+          title={district ? t('print.title', { district: district.name }) : t('print.titleAll')}
+          siteUrl={`${window.location.origin}/${homeQuery}`}
+          isLoading={isLoading}
+          now={now}
+          onBack={() => navigate(`/${homeQuery}`)}
+        />
+      </Container>
+    );
+  }
+
+  if (route.name === 'meeting') {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {offlineNotice}
+        <MeetingDetailPage
+          meetingId={route.id}
+          meetings={meetings}
+          isLoading={isLoading}
+          onBack={() => navigate(`/${writeUrlState({ ...currentUrlState, meeting: '' }, defaultUrlState)}`)}
+        />
+        <SiteFooter />
+      </Container>
+    );
+  }
 
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
-      <Typography variant="h3" component="h1" gutterBottom align="center" sx={{ color: '#0d2357' }}>
-        Find a Meeting
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 1 }}>
+        <LanguageSelector color={BRAND_COLOR} />
+      </Box>
+      <Typography variant="h3" component="h1" gutterBottom align="center" sx={{ color: BRAND_COLOR }}>
+        {getSiteText(siteConfig.title, locale)}
       </Typography>
-      <Typography variant="h6" component="h2" gutterBottom align="center" sx={{ mb: 4, color: '#0d2357' }}>
-        Select filters to find your perfect meeting.
+      <Typography variant="h6" component="h2" gutterBottom align="center" sx={{ mb: 4, color: BRAND_COLOR }}>
+        {getSiteText(siteConfig.subtitle, locale)}
       </Typography>
       
       {error && (
@@ -466,74 +819,295 @@ function App() {
         </Alert>
       )}
       
+      {isDevBuild && <DataIssuesPanel districtIssues={dataIssues} />}
+      
+      {offlineNotice}
+      
+      <SavedMeetingsAlert changes={savedChanges} onDismiss={acknowledgeSavedChanges} />
+      
       {isLoading && (
         <Alert severity="info" sx={{ mb: 2 }}>
-          Loading meetings and locations... This should only take a few seconds.
+          {t('app.loading')}
+        </Alert>
+      )}
+      
+      {!isLoading && pendingGeocodes > 0 && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {t('app.placing', { count: pendingGeocodes })}
         </Alert>
       )}
       
       
       <Paper sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ 
+          mb: 2,
+          display: 'flex',
+          gap: { xs: 1, sm: 2 },
+          alignItems: 'center',
+          flexWrap: 'wrap'
+        }}>
+          <DistrictSelector
+            selectedDistrict={selectedDistrict}
+            onDistrictChange={setSelectedDistrict}
+            color={BRAND_COLOR}
+          />
+          <HappeningNowControls
+            enabled={happeningNow}
+            windowMinutes={nowWindow}
+            onEnabledChange={setHappeningNow}
+            onWindowChange={setNowWindow}
+            color={BRAND_COLOR}
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={showSaved}
+                onChange={(e) => setShowSaved(e.target.checked)}
+                sx={{
+                  '& .MuiSwitch-switchBase.Mui-checked': { color: BRAND_COLOR },
+                  '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { backgroundColor: BRAND_COLOR }
+                }}
+              />
+            }
+            label={t('saved.toggle', { count: savedMeetings.length })}
+            sx={{ color: BRAND_COLOR }}
+          />
+        </Box>
         <FilterControls
-          selectedDay={selectedDay}
-          selectedTime={selectedTime}
-          selectedType={selectedType}
-          selectedFormat={selectedFormat}
-          onDayChange={setSelectedDay}
-          onTimeChange={setSelectedTime}
-          onTypeChange={setSelectedType}
-          onFormatChange={setSelectedFormat}
-          color="#0d2357"
+          searchQuery={searchQuery}
+          options={filterOptions}
+          selectedDays={selectedDays}
+          selectedTimes={selectedTimes}
+          selectedTypes={selectedTypes}
+          selectedFormats={selectedFormats}
+          selectedAmenities={selectedAmenities}
+          selectedLanguages={selectedLanguages}
+          startRange={startRange}
+          onSearchChange={setSearchQuery}
+          onDaysChange={setSelectedDays}
+          onTimesChange={setSelectedTimes}
+          onTypesChange={setSelectedTypes}
+          onFormatsChange={setSelectedFormats}
+          onAmenitiesChange={setSelectedAmenities}
+          onLanguagesChange={setSelectedLanguages}
+          onStartRangeChange={setStartRange}
+          scheduleDisabled={happeningNow}
+          color={BRAND_COLOR}
         />
+        <Box sx={{ mt: 2 }}>
+          <NearMeControls
+            origin={origin}
+            radiusMiles={radiusMiles}
+            onOriginChange={setOrigin}
+            onRadiusChange={setRadiusMiles}
+            geocodePlace={geocodeAddress}
+            color={BRAND_COLOR}
+          />
+        </Box>
       </Paper>
       
-      <Grid container spacing={{ xs: 2, md: 3 }}>
-        <Grid item xs={12} md={6}>
-          <Paper sx={{ p: 2, height: { xs: '400px', md: '600px' } }}>
-            <MapContainer
-              center={[43.6591, -70.2568]} // Default center (will be overridden by FitBounds)
-              zoom={10} // Default zoom (will be overridden by FitBounds)
-              style={{ height: '100%', width: '100%' }}
-            >
-              <TileLayer
-                url="https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png"
-                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
-              />
-              <FitBounds meetings={filteredMeetings} />
-              {groupMeetingsByLocation(filteredMeetings).map((location, index) => {
-                const isMultiple = location.meetings.length > 1;
-                const markerIcon = createNumberedMarkerIcon(location.meetings.length, isMultiple);
+      {showSaved && savedMeetings.length === 0 && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {t('saved.empty')}
+        </Alert>
+      )}
+      
+      <ToggleButtonGroup
+        value={view}
+        exclusive
+        size="small"
+        onChange={(_, value: ResultsView | null) => value && setView(value)}
+        aria-label={t('view.label')}
+        sx={{ mb: 2 }}
+      >
+        <ToggleButton value="map" sx={{ textTransform: 'none', gap: 0.5 }}>
+          <MapIcon fontSize="small" /> {t('view.map')}
+        </ToggleButton>
+        <ToggleButton value="week" sx={{ textTransform: 'none', gap: 0.5 }}>
+          <CalendarViewWeek fontSize="small" /> {t('view.week')}
+        </ToggleButton>
+      </ToggleButtonGroup>
+      
+      {view === 'week' && (
+        <Paper sx={{ p: 2 }}>
+          <Typography variant="h6" sx={{ 
+            color: 'text.primary', 
+            fontWeight: 'medium',
+            fontSize: { xs: '1.1rem', md: '1.25rem' },
+            mb: 2
+          }}>
+            {t('results.found', { count: filteredMeetings.length })}
+          </Typography>
+          <WeekCalendar meetings={filteredMeetings} now={now} />
+        </Paper>
+      )}
+      
+      {view === 'map' && (
+        <Grid container spacing={{ xs: 2, md: 3 }}>
+          <Grid item xs={12} md={6}>
+            <Paper sx={{ p: 2, height: { xs: '400px', md: '600px' } }}>
+              <MapContainer
+                center={defaultView.center} // Default center (will be overridden by FitBounds)
+                zoom={defaultView.zoom} // Default zoom (will be overridden by FitBounds)
+                style={{ height: '100%', width: '100%' }}
+                ref={mapRef}
+              >
+                <TileLayer
+                  url={TILE_URL_TEMPLATE}
+                  attribution={TILE_ATTRIBUTION}
+                  subdomains={TILE_SUBDOMAINS}
+                  crossOrigin="anonymous"
+                />
+                {!searchMapArea && <FitBounds meetings={filteredMeetings} defaultView={defaultView} />}
+                <MapViewTracker onViewChange={setMapView} />
+                {origin && (
+                  <>
+                    <CircleMarker
+                      center={origin.coordinates}
+                      radius={8}
+                      pathOptions={{ color: '#ffffff', weight: 3, fillColor: '#1976d2', fillOpacity: 1 }}
+                    />
+                    {radiusMiles > 0 && (
+                      <Circle
+                        center={origin.coordinates}
+                        radius={radiusMiles * 1609.34} // miles to meters
+                        pathOptions={{ color: '#1976d2', weight: 1, fillOpacity: 0.05 }}
+                      />
+                    )}
+                  </>
+                )}
+                {locationClusters.map((cluster) => {
+                  const key = cluster.locations[0].coordinates.join(',');
                 
-                return (
-                  <Marker 
-                    key={index} 
-                    position={location.coordinates}
-                    icon={markerIcon}
-                  >
-                    <Popup>
-                      <MeetingPopup meetings={location.meetings} />
-                    </Popup>
-                  </Marker>
-                );
-              })}
-            </MapContainer>
-          </Paper>
-        </Grid>
+                  if (cluster.locations.length > 1) {
+                    const isClusterHighlighted = cluster.locations.some(location => location.meetings.some(isHighlightedMeeting));
+                    return (
+                      <Marker
+                        key={`cluster-${key}`}
+                        position={cluster.coordinates}
+                        icon={createClusterMarkerIcon(cluster.meetingCount, isClusterHighlighted)}
+                        title={t('map.cluster', { count: cluster.meetingCount, locations: cluster.locations.length })}
+                        zIndexOffset={isClusterHighlighted ? 1000 : 0}
+                        eventHandlers={{
+                          click: () => mapRef.current?.fitBounds(getClusterBounds(cluster), { padding: [40, 40], maxZoom: CLUSTER_MAX_ZOOM })
+                        }}
+                      />
+                    );
+                  }
+                
+                  const location = cluster.locations[0];
+                  const isMultiple = location.meetings.length > 1;
+                  const isHighlighted = location.meetings.some(isHighlightedMeeting);
+                  const markerIcon = createNumberedMarkerIcon(location.meetings.length, isMultiple, isHighlighted);
+                
+                  return (
+                    <Marker 
+                      key={key} 
+                      position={location.coordinates}
+                      icon={markerIcon}
+                      zIndexOffset={isHighlighted ? 1000 : 0}
+                      ref={(marker) => {
+                        marker ? markerRefs.current.set(key, marker) : markerRefs.current.delete(key);
+                      }}
+                      eventHandlers={{
+                        // Only clear the selection if it's still this location's; opening
+                        // another marker's popup closes this one after selecting there
+                        popupclose: () => setSelectedMeetingKey(current =>
+                          location.meetings.some(meeting => meeting.id === current) ? '' : current
+                        )
+                      }}
+                    >
+                      <Popup>
+                        <MeetingPopup
+                          meetings={location.meetings}
+                          selectedKey={selectedMeetingKey}
+                          savedIds={savedIds}
+                          onToggleSaved={toggleSavedMeeting}
+                          onSelect={(meeting) => {
+                            selectionSource.current = 'map';
+                            setSelectedMeetingKey(meeting.id);
+                          }}
+                        />
+                      </Popup>
+                    </Marker>
+                  );
+                })}
+              </MapContainer>
+            </Paper>
+          </Grid>
         
-        <Grid item xs={12} md={6}>
-          <Paper sx={{ p: 2, height: { xs: '400px', md: '600px' }, overflow: 'auto' }}>
-            <Typography variant="h6" sx={{ 
-              mb: 2, 
-              color: 'text.primary', 
-              fontWeight: 'medium',
-              fontSize: { xs: '1.1rem', md: '1.25rem' }
-            }}>
-              Found {filteredMeetings.length} {filteredMeetings.length === 1 ? 'meeting' : 'meetings'}
-            </Typography>
-            <MeetingList meetings={filteredMeetings} />
-          </Paper>
+          <Grid item xs={12} md={6}>
+            <Paper ref={listContainerRef} sx={{ p: 2, height: { xs: '400px', md: '600px' }, overflow: 'auto' }}>
+              <Box sx={{ 
+                display: 'flex', 
+                justifyContent: 'space-between', 
+                alignItems: 'center', 
+                gap: 1,
+                flexWrap: 'wrap',
+                mb: 2 
+              }}>
+                <Typography variant="h6" sx={{ 
+                  color: 'text.primary', 
+                  fontWeight: 'medium',
+                  fontSize: { xs: '1.1rem', md: '1.25rem' }
+                }}>
+                  {t(searchMapArea ? 'results.foundInArea' : 'results.found', { count: listedMeetings.length })}
+                </Typography>
+                <Button
+                  size="small"
+                  variant="outlined"
+                  startIcon={<FileDownload />}
+                  onClick={() => downloadCalendar(listedMeetings, 'meetings.ics')}
+                  disabled={!listedMeetings.some(canExportMeeting)}
+                  sx={{ color: BRAND_COLOR, borderColor: BRAND_COLOR, textTransform: 'none' }}
+                >
+                  {t('results.downloadCalendar')}
+                </Button>
+                <Button
+                  size="small"
+                  variant="outlined"
+                  startIcon={<Print />}
+                  onClick={() => navigate(`${PRINT_PATH}${writeUrlState({ ...currentUrlState, meeting: '' }, defaultUrlState)}`)}
+                  disabled={listedMeetings.length === 0}
+                  sx={{ color: BRAND_COLOR, borderColor: BRAND_COLOR, textTransform: 'none' }}
+                >
+                  {t('results.print')}
+                </Button>
+              </Box>
+              <FormControlLabel
+                control={
+                  <Switch
+                    size="small"
+                    checked={searchMapArea}
+                    onChange={(e) => setSearchMapArea(e.target.checked)}
+                    sx={{
+                      '& .MuiSwitch-switchBase.Mui-checked': { color: BRAND_COLOR },
+                      '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { backgroundColor: BRAND_COLOR }
+                    }}
+                  />
+                }
+                label={t('results.mapAreaOnly')}
+                sx={{ mb: 1, color: BRAND_COLOR, '& .MuiFormControlLabel-label': { fontSize: '0.9rem' } }}
+              />
+              <MeetingList
+                meetings={listedMeetings}
+                countdowns={happeningNow ? countdowns : undefined}
+                distances={origin ? distances : undefined}
+                searchTerms={getSearchTerms(searchQuery)}
+                selectedId={selectedMeetingKey}
+                onSelect={(meeting) => {
+                  selectionSource.current = 'list';
+                  setSelectedMeetingKey(meeting.id);
+                }}
+                onHover={(meeting) => setHoveredMeetingKey(meeting ? meeting.id : '')}
+                savedIds={savedIds}
+                onToggleSaved={toggleSavedMeeting}
+              />
+            </Paper>
+          </Grid>
         </Grid>
-      </Grid>
+      )}
+      <SiteFooter />
     </Container>
   );
 }
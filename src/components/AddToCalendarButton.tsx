@@ -0,0 +1,32 @@
+import { Button } from '@mui/material';
+import EventIcon from '@mui/icons-material/Event';
+import { Meeting } from '../types/Meeting';
+import { canExportMeeting, downloadCalendar, getCalendarFilename } from '../utils/ics';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface AddToCalendarButtonProps {
+  meeting: Meeting;
+}
+
+export default function AddToCalendarButton({ meeting }: AddToCalendarButtonProps) {
+  const { t } = useI18n();
+  if (!canExportMeeting(meeting)) return null;
+
+  return (
+    <Button
+      size="small"
+      startIcon={<EventIcon fontSize="small" />}
+      onClick={() => downloadCalendar([meeting], getCalendarFilename(meeting))}
+      sx={{
+        alignSelf: 'flex-start',
+        p: 0,
+        minWidth: 0,
+        textTransform: 'none',
+        color: '#1976d2',
+        fontWeight: 'medium'
+      }}
+    >
+      {t('meeting.addToCalendar')}
+    </Button>
+  );
+}
@@ -0,0 +1,59 @@
+import { Box, Tooltip, Typography } from '@mui/material';
+import { Accessible, LocalParking, ChildCare, Spa } from '@mui/icons-material';
+import { Amenity, Amenities } from '../types/Meeting';
+import { AMENITIES } from '../utils/amenities';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface AmenityIconsProps {
+  amenities: Amenities;
+  showLabels?: boolean; // spell out each amenity, e.g. on the detail page
+}
+
+const amenityIcons: Record<Amenity, typeof Accessible> = {
+  wheelchair: Accessible,
+  parking: LocalParking,
+  childcare: ChildCare,
+  fragranceFree: Spa
+};
+
+// Venue amenities as icons. Blank CSV values are shown as unknown, never as "no":
+// most venues simply haven't been asked yet.
+export default function AmenityIcons({ amenities, showLabels = false }: AmenityIconsProps) {
+  const { t } = useI18n();
+
+  return (
+    <Box sx={{ display: 'flex', gap: showLabels ? 2 : 1, flexWrap: 'wrap', alignItems: 'center' }}>
+      {AMENITIES.map(({ key }) => {
+        const value = amenities[key];
+        const status = value === true ? 'yes' : value === false ? 'no' : 'unknown';
+        const label = t(`amenity.${key}`);
+        const description = t(`amenity.${status}`, { amenity: label });
+        const Icon = amenityIcons[key];
+        return (
+          <Tooltip key={key} title={description}>
+            <Box
+              component="span"
+              role="img"
+              aria-label={description}
+              sx={{
+                display: 'inline-flex',
+                alignItems: 'center',
+                gap: 0.25,
+                color: status === 'yes' ? '#2e7d32' : status === 'no' ? '#9e9e9e' : '#bdbdbd'
+              }}
+            >
+              <Icon sx={{ fontSize: 18 }} />
+              {status === 'no' && <Typography component="span" variant="caption">✕</Typography>}
+              {status === 'unknown' && <Typography component="span" variant="caption">?</Typography>}
+              {showLabels && (
+                <Typography component="span" variant="body2" sx={{ color: 'text.secondary', ml: 0.25 }}>
+                  {status === 'yes' ? label : description}
+                </Typography>
+              )}
+            </Box>
+          </Tooltip>
+        );
+      })}
+    </Box>
+  );
+}
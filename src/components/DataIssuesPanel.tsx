@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { Alert, AlertTitle, Box, Button, Typography } from '@mui/material';
+import { ValidationIssue } from '../utils/validation';
+import { useI18n } from '../i18n/I18nProvider';
+
+export interface DistrictIssues {
+  districtName: string;
+  issues: ValidationIssue[];
+}
+
+interface DataIssuesPanelProps {
+  districtIssues: DistrictIssues[];
+}
+
+// Problems found in the loaded CSVs, shown in dev builds so they get fixed before deploying
+export default function DataIssuesPanel({ districtIssues }: DataIssuesPanelProps) {
+  const { t } = useI18n();
+  const [expanded, setExpanded] = useState(false);
+  const withIssues = districtIssues.filter(district => district.issues.length > 0);
+  if (withIssues.length === 0) return null;
+
+  const all = withIssues.flatMap(district => district.issues);
+  const errorCount = all.filter(issue => issue.severity === 'error').length;
+  const warningCount = all.length - errorCount;
+
+  // Same layout as formatIssue in the CLI report, in the reader's language
+  const formatIssue = (issue: ValidationIssue) => {
+    const location = issue.row === 0
+      ? t('issues.header')
+      : `${t('issues.row', { row: issue.row })}${issue.meetingName ? ` (${issue.meetingName})` : ''}`;
+    return `${location}, ${issue.field}: ${t(issue.messageKey, issue.messageParams)}`;
+  };
+
+  return (
+    <Alert
+      severity={errorCount > 0 ? 'error' : 'warning'}
+      sx={{ mb: 2 }}
+      action={
+        <Button color="inherit" size="small" onClick={() => setExpanded(!expanded)}>
+          {expanded ? t('issues.hide') : t('issues.details')}
+        </Button>
+      }
+    >
+      <AlertTitle>
+        {t('issues.summary', {
+          errors: t('issues.errors', { count: errorCount }),
+          warnings: t('issues.warnings', { count: warningCount })
+        })}
+      </AlertTitle>
+      {expanded && withIssues.map(district => (
+        <Box key={district.districtName} sx={{ mt: 1 }}>
+          <Typography variant="subtitle2">{district.districtName}</Typography>
+          {district.issues.map((issue, index) => (
+            <Typography key={index} variant="body2" sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>
+              {issue.severity === 'error' ? t('issues.error') : t('issues.warning')} {formatIssue(issue)}
+            </Typography>
+          ))}
+        </Box>
+      ))}
+    </Alert>
+  );
+}
@@ -0,0 +1,41 @@
+import { FormControl, InputLabel, Select, MenuItem } from '@mui/material';
+import { districts, ALL_DISTRICTS } from '../data/districts';
+import { useI18n } from '../i18n/I18nProvider';
+import { BRAND_COLOR } from '../utils/siteConfig';
+
+interface DistrictSelectorProps {
+  selectedDistrict: string;
+  onDistrictChange: (district: string) => void;
+  color?: string;
+}
+
+export default function DistrictSelector({
+  selectedDistrict,
+  onDistrictChange,
+  color = BRAND_COLOR
+}: DistrictSelectorProps) {
+  const { t } = useI18n();
+
+  return (
+    <FormControl sx={{ 
+      minWidth: { xs: 150, sm: 220, md: 260 },
+      flex: { xs: '1 1 100%', sm: 'none' }
+    }}>
+      <InputLabel sx={{ color, fontSize: { xs: '0.9rem', sm: '1rem' } }}>{t('district.label')}</InputLabel>
+      <Select
+        value={selectedDistrict}
+        label={t('district.label')}
+        onChange={(e: any) => onDistrictChange(e.target.value)}
+        sx={{ color }}
+        size="small"
+      >
+        <MenuItem value={ALL_DISTRICTS}>{t('district.all')}</MenuItem>
+        {districts.map((district) => (
+          <MenuItem key={district.id} value={district.id}>
+            {district.name}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+}
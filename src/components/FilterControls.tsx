@@ -1,65 +1,117 @@
-import { FormControl, InputLabel, Select, MenuItem, Box, Button } from '@mui/material';
-import { TimeOfDay, MeetingType } from '../types/Meeting';
+import { FormControl, InputLabel, Select, MenuItem, Box, Button, Slider, Typography, TextField, InputAdornment, Checkbox, ListItemText, alpha } from '@mui/material';
+import { TimeOfDay, MeetingType, Amenity } from '../types/Meeting';
+import { FULL_DAY_RANGE } from '../utils/time';
+import { FilterOption, FilterOptions } from '../utils/filterOptions';
+import { useI18n } from '../i18n/I18nProvider';
 import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import SearchIcon from '@mui/icons-material/Search';
+import { BRAND_COLOR } from '../utils/siteConfig';
 
 interface FilterControlsProps {
-  selectedDay: string;
-  selectedTime: TimeOfDay | '';
-  selectedType: MeetingType | '';
-  selectedFormat?: string;
-  onDayChange: (day: string) => void;
-  onTimeChange: (time: TimeOfDay | '') => void;
-  onTypeChange: (type: MeetingType | '') => void;
-  onFormatChange?: (format: string) => void;
+  options: FilterOptions; // built from the loaded meetings, see getFilterOptions
+  searchQuery?: string;
+  selectedDays: string[];
+  selectedTimes: TimeOfDay[];
+  selectedTypes: MeetingType[];
+  selectedFormats?: string[];
+  selectedAmenities?: Amenity[];
+  selectedLanguages?: string[];
+  startRange?: [number, number];
+  onSearchChange?: (query: string) => void;
+  onDaysChange: (days: string[]) => void;
+  onTimesChange: (times: TimeOfDay[]) => void;
+  onTypesChange: (types: MeetingType[]) => void;
+  onFormatsChange?: (formats: string[]) => void;
+  onAmenitiesChange?: (amenities: Amenity[]) => void;
+  onLanguagesChange?: (languages: string[]) => void;
+  onStartRangeChange?: (range: [number, number]) => void;
+  scheduleDisabled?: boolean; // day and time filters don't apply, e.g. in "happening now" mode
   color?: string;
 }
 
-const days = [
-  'Monday',
-  'Tuesday',
-  'Wednesday',
-  'Thursday',
-  'Friday',
-  'Saturday',
-  'Sunday'
-];
+interface MultiSelectFilterProps<T extends string> {
+  label: string;
+  allLabel: string;
+  options: FilterOption<T>[];
+  selected: T[];
+  onChange: (values: T[]) => void;
+  disabled?: boolean;
+  color: string;
+}
 
-const times: TimeOfDay[] = ['morning', 'afternoon', 'evening'];
-const types: MeetingType[] = ['in-Person', 'virtual', 'hybrid'];
+// Dropdown allowing several values, each listed with how many meetings have it.
+// Nothing selected means no filtering.
+function MultiSelectFilter<T extends string>({ label, allLabel, options, selected, onChange, disabled = false, color }: MultiSelectFilterProps<T>) {
+  const getLabel = (value: T) => options.find(option => option.value === value)?.label || value;
 
-const capitalizeFirstLetter = (str: string): string => {
-  if (!str) return '';
-  return str.charAt(0).toUpperCase() + str.slice(1);
-};
+  return (
+    <FormControl sx={{ 
+      minWidth: { xs: 150, sm: 180, md: 200 },
+      maxWidth: { sm: 280 },
+      flex: { xs: '1 1 45%', sm: 'none' } // Take up more space on mobile
+    }}>
+      <InputLabel shrink sx={{ color, fontSize: { xs: '0.9rem', sm: '1rem' } }}>{label}</InputLabel>
+      <Select
+        multiple
+        displayEmpty
+        notched
+        value={selected}
+        label={label}
+        disabled={disabled}
+        onChange={(e: any) => {
+          const value = e.target.value;
+          onChange(typeof value === 'string' ? value.split(',') : value);
+        }}
+        renderValue={(values: T[]) => values.length === 0 ? allLabel : values.map(getLabel).join(', ')}
+        sx={{ color }}
+        size="small"
+      >
+        {options.map((option) => (
+          <MenuItem key={option.value} value={option.value} dense>
+            <Checkbox checked={selected.includes(option.value)} size="small" sx={{ p: 0.5, mr: 1 }} />
+            <ListItemText primary={option.label} />
+            <Typography variant="caption" sx={{ color: 'text.secondary', ml: 2 }}>
+              {option.count}
+            </Typography>
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+}
 
 export default function FilterControls({
-  selectedDay,
-  selectedTime,
-  selectedType,
-  selectedFormat = '',
-  onDayChange,
-  onTimeChange,
-  onTypeChange,
-  onFormatChange,
-  color = '#0d2357'
+  options,
+  searchQuery = '',
+  selectedDays,
+  selectedTimes,
+  selectedTypes,
+  selectedFormats = [],
+  selectedAmenities = [],
+  selectedLanguages = [],
+  startRange = FULL_DAY_RANGE,
+  onSearchChange,
+  onDaysChange,
+  onTimesChange,
+  onTypesChange,
+  onFormatsChange,
+  onAmenitiesChange,
+  onLanguagesChange,
+  onStartRangeChange,
+  scheduleDisabled = false,
+  color = BRAND_COLOR
 }: FilterControlsProps) {
-  const handleDayChange = (value: string) => {
-    onDayChange(value.toLowerCase());
-  };
-
-  const handleTimeChange = (value: string) => {
-    onTimeChange(value as TimeOfDay | '');
-  };
-
-  const handleTypeChange = (value: string) => {
-    onTypeChange(value as MeetingType | '');
-  };
+  const { t, formatTime } = useI18n();
 
   const handleReset = () => {
-    onDayChange('');
-    onTimeChange('');
-    onTypeChange('');
-    onFormatChange && onFormatChange('');
+    onSearchChange && onSearchChange('');
+    onDaysChange([]);
+    onTimesChange([]);
+    onTypesChange([]);
+    onFormatsChange && onFormatsChange([]);
+    onAmenitiesChange && onAmenitiesChange([]);
+    onLanguagesChange && onLanguagesChange([]);
+    onStartRangeChange && onStartRangeChange(FULL_DAY_RANGE);
   };
 
   return (
@@ -69,86 +121,112 @@ export default function FilterControls({
       alignItems: 'center',
       flexWrap: 'wrap' // Allow wrapping on mobile
     }}>
-      <FormControl sx={{ 
-        minWidth: { xs: 150, sm: 180, md: 200 },
-        flex: { xs: '1 1 45%', sm: 'none' } // Take up more space on mobile
-      }}>
-        <InputLabel sx={{ color, fontSize: { xs: '0.9rem', sm: '1rem' } }}>Day</InputLabel>
-        <Select
-          value={selectedDay}
-          label="Day"
-          onChange={(e: any) => handleDayChange(e.target.value)}
-          sx={{ color }}
+      {onSearchChange && (
+        <TextField
+          value={searchQuery}
+          onChange={(e) => onSearchChange(e.target.value)}
+          placeholder={t('filters.searchPlaceholder')}
           size="small"
-        >
-          <MenuItem value="">All Days</MenuItem>
-          {days.map((day) => (
-            <MenuItem key={day} value={day.toLowerCase()}>
-              {day}
-            </MenuItem>
-          ))}
-        </Select>
-      </FormControl>
+          inputProps={{ 'aria-label': t('filters.searchLabel') }}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon sx={{ color }} />
+              </InputAdornment>
+            )
+          }}
+          sx={{ 
+            minWidth: { xs: 150, sm: 260, md: 300 },
+            flex: { xs: '1 1 100%', sm: 'none' }
+          }}
+        />
+      )}
 
-      <FormControl sx={{ 
-        minWidth: { xs: 150, sm: 180, md: 200 },
-        flex: { xs: '1 1 45%', sm: 'none' }
-      }}>
-        <InputLabel sx={{ color, fontSize: { xs: '0.9rem', sm: '1rem' } }}>Format</InputLabel>
-        <Select
-          value={selectedFormat}
-          label="Format"
-          onChange={(e: any) => onFormatChange && onFormatChange(e.target.value)}
-          sx={{ color }}
-          size="small"
-        >
-          <MenuItem value="">All Formats</MenuItem>
-          <MenuItem value="Regular">Regular</MenuItem>
-          <MenuItem value="Beginner">Beginner</MenuItem>
-        </Select>
-      </FormControl>
+      <MultiSelectFilter
+        label={t('filters.day')}
+        allLabel={t('filters.allDays')}
+        options={options.days}
+        selected={selectedDays}
+        onChange={onDaysChange}
+        disabled={scheduleDisabled}
+        color={color}
+      />
 
-      <FormControl sx={{ 
-        minWidth: { xs: 150, sm: 180, md: 200 },
-        flex: { xs: '1 1 45%', sm: 'none' }
-      }}>
-        <InputLabel sx={{ color, fontSize: { xs: '0.9rem', sm: '1rem' } }}>Time of Day</InputLabel>
-        <Select
-          value={selectedTime}
-          label="Time of Day"
-          onChange={(e: any) => handleTimeChange(e.target.value)}
-          sx={{ color }}
-          size="small"
-        >
-          <MenuItem value="">All Times</MenuItem>
-          {times.map((time) => (
-            <MenuItem key={time} value={time}>
-              {capitalizeFirstLetter(time)}
-            </MenuItem>
-          ))}
-        </Select>
-      </FormControl>
+      <MultiSelectFilter
+        label={t('filters.format')}
+        allLabel={t('filters.allFormats')}
+        options={options.formats}
+        selected={selectedFormats}
+        onChange={(formats) => onFormatsChange && onFormatsChange(formats)}
+        color={color}
+      />
 
-      <FormControl sx={{ 
-        minWidth: { xs: 150, sm: 180, md: 200 },
-        flex: { xs: '1 1 45%', sm: 'none' }
-      }}>
-        <InputLabel sx={{ color, fontSize: { xs: '0.9rem', sm: '1rem' } }}>Meeting Type</InputLabel>
-        <Select
-          value={selectedType}
-          label="Meeting Type"
-          onChange={(e: any) => handleTypeChange(e.target.value)}
-          sx={{ color }}
-          size="small"
-        >
-          <MenuItem value="">All Types</MenuItem>
-          {types.map((type) => (
-            <MenuItem key={type} value={type}>
-              {type === 'in-Person' ? 'In-Person' : capitalizeFirstLetter(type)}
-            </MenuItem>
-          ))}
-        </Select>
-      </FormControl>
+      <MultiSelectFilter
+        label={t('filters.time')}
+        allLabel={t('filters.allTimes')}
+        options={options.times}
+        selected={selectedTimes}
+        onChange={onTimesChange}
+        disabled={scheduleDisabled}
+        color={color}
+      />
+
+      <MultiSelectFilter
+        label={t('filters.type')}
+        allLabel={t('filters.allTypes')}
+        options={options.types}
+        selected={selectedTypes}
+        onChange={onTypesChange}
+        color={color}
+      />
+
+      {onAmenitiesChange && (
+        <MultiSelectFilter
+          label={t('filters.amenities')}
+          allLabel={t('filters.anyVenue')}
+          options={options.amenities}
+          selected={selectedAmenities}
+          onChange={onAmenitiesChange}
+          color={color}
+        />
+      )}
+
+      {onLanguagesChange && options.languages.length > 0 && (
+        <MultiSelectFilter
+          label={t('filters.language')}
+          allLabel={t('filters.allLanguages')}
+          options={options.languages}
+          selected={selectedLanguages}
+          onChange={onLanguagesChange}
+          color={color}
+        />
+      )}
+
+      {onStartRangeChange && (
+        <Box sx={{ 
+          minWidth: { xs: 150, sm: 220, md: 260 },
+          flex: { xs: '1 1 100%', sm: 'none' },
+          px: 1
+        }}>
+          <Typography variant="caption" sx={{ color }}>
+            {t('filters.startsBetween', { from: formatTime(startRange[0]), to: formatTime(startRange[1]) })}
+          </Typography>
+          <Slider
+            value={startRange}
+            onChange={(_e, value) => onStartRangeChange(value as [number, number])}
+            min={FULL_DAY_RANGE[0]}
+            max={FULL_DAY_RANGE[1]}
+            step={15}
+            valueLabelDisplay="auto"
+            valueLabelFormat={formatTime}
+            getAriaValueText={formatTime}
+            disableSwap
+            disabled={scheduleDisabled}
+            size="small"
+            sx={{ color }}
+          />
+        </Box>
+      )}
 
       <Button
         variant="outlined"
@@ -163,11 +241,11 @@ export default function FilterControls({
           mt: { xs: 1, sm: 0 }, // Add top margin on mobile
           '&:hover': {
             borderColor: color,
-            backgroundColor: 'rgba(13, 35, 87, 0.04)'
+            backgroundColor: alpha(color, 0.04)
           }
         }}
       >
-        Reset Filters
+        {t('filters.reset')}
       </Button>
     </Box>
   );
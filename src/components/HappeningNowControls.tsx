@@ -0,0 +1,65 @@
+import { FormControl, InputLabel, Select, MenuItem, Box, FormControlLabel, Switch } from '@mui/material';
+import { useI18n } from '../i18n/I18nProvider';
+import { BRAND_COLOR } from '../utils/siteConfig';
+
+interface HappeningNowControlsProps {
+  enabled: boolean;
+  windowMinutes: number;
+  onEnabledChange: (enabled: boolean) => void;
+  onWindowChange: (minutes: number) => void;
+  color?: string;
+}
+
+const windowOptions = [30, 60, 120];
+
+export default function HappeningNowControls({
+  enabled,
+  windowMinutes,
+  onEnabledChange,
+  onWindowChange,
+  color = BRAND_COLOR
+}: HappeningNowControlsProps) {
+  const { t } = useI18n();
+
+  return (
+    <Box sx={{ 
+      display: 'flex', 
+      gap: { xs: 1, sm: 2 }, 
+      alignItems: 'center',
+      flexWrap: 'wrap'
+    }}>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            sx={{
+              '& .MuiSwitch-switchBase.Mui-checked': { color },
+              '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { backgroundColor: color }
+            }}
+          />
+        }
+        label={t('now.label')}
+        sx={{ color }}
+      />
+      {enabled && (
+        <FormControl sx={{ minWidth: { xs: 150, sm: 180 } }}>
+          <InputLabel sx={{ color, fontSize: { xs: '0.9rem', sm: '1rem' } }}>{t('now.within')}</InputLabel>
+          <Select
+            value={windowMinutes}
+            label={t('now.within')}
+            onChange={(e: any) => onWindowChange(Number(e.target.value))}
+            sx={{ color }}
+            size="small"
+          >
+            {windowOptions.map((minutes) => (
+              <MenuItem key={minutes} value={minutes}>
+                {minutes < 60 ? t('now.minutes', { count: minutes }) : t('now.hours', { count: minutes / 60 })}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,31 @@
+import { getHighlightRanges } from '../utils/search';
+
+interface HighlightedTextProps {
+  text: string;
+  terms?: string[];
+}
+
+// Renders text with the parts matching the search terms marked
+export default function HighlightedText({ text, terms = [] }: HighlightedTextProps) {
+  const ranges = getHighlightRanges(text, terms);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: JSX.Element[] = [];
+  let position = 0;
+  ranges.forEach(([start, end], index) => {
+    if (start > position) {
+      parts.push(<span key={`text-${index}`}>{text.slice(position, start)}</span>);
+    }
+    parts.push(
+      <mark key={`match-${index}`} style={{ backgroundColor: '#fff59d', color: 'inherit', padding: 0 }}>
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) {
+    parts.push(<span key="text-end">{text.slice(position)}</span>);
+  }
+
+  return <>{parts}</>;
+}
@@ -0,0 +1,37 @@
+import { FormControl, Select, MenuItem } from '@mui/material';
+import TranslateIcon from '@mui/icons-material/Translate';
+import { LOCALES, isLocale } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { BRAND_COLOR } from '../utils/siteConfig';
+
+interface LanguageSelectorProps {
+  color?: string;
+}
+
+// Switches the language of the whole site; the choice is remembered in this browser
+export default function LanguageSelector({ color = BRAND_COLOR }: LanguageSelectorProps) {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <FormControl size="small">
+      <Select
+        value={locale}
+        onChange={(e: any) => isLocale(e.target.value) && setLocale(e.target.value)}
+        inputProps={{ 'aria-label': t('app.language') }}
+        renderValue={(value) => (
+          <span style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <TranslateIcon fontSize="small" />
+            {LOCALES.find(option => option.code === value)?.label}
+          </span>
+        )}
+        sx={{ color, '& .MuiSvgIcon-root': { color } }}
+      >
+        {LOCALES.map((option) => (
+          <MenuItem key={option.code} value={option.code} lang={option.code}>
+            {option.label}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+}
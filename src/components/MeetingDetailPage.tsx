@@ -0,0 +1,186 @@
+import { Paper, Typography, Box, Button, Alert, List, ListItem, ListItemText, Chip } from '@mui/material';
+import { ArrowBack, Directions } from '@mui/icons-material';
+import { MapContainer, TileLayer, Marker } from 'react-leaflet';
+import { Meeting } from '../types/Meeting';
+import { districts, getDistrict } from '../data/districts';
+import { cleanAddressDisplay, getDirectionsUrl } from '../utils/address';
+import { createNumberedMarkerIcon } from '../utils/markers';
+import { findClosestMeeting, findIdDistrictId } from '../utils/meetingId';
+import { distanceInMiles } from '../utils/geo';
+import { getMeetingPath } from '../utils/routes';
+import { getFormatTags } from '../utils/filterOptions';
+import { TILE_URL_TEMPLATE, TILE_ATTRIBUTION, TILE_SUBDOMAINS } from '../utils/tiles';
+import VirtualAccessDetails from './VirtualAccessDetails';
+import AddToCalendarButton from './AddToCalendarButton';
+import RouteLink from './RouteLink';
+import ViewerTimeNote from './ViewerTimeNote';
+import AmenityIcons from './AmenityIcons';
+import { formatFormatTag, formatLanguageName } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { BRAND_COLOR } from '../utils/siteConfig';
+
+interface MeetingDetailPageProps {
+  meetingId: string;
+  meetings: Meeting[];
+  isLoading: boolean;
+  onBack: () => void;
+}
+
+const SUGGESTION_COUNT = 5;
+
+// Meetings to offer when a link points at one that no longer exists: the one it
+// most resembles, then the mapped meetings of the district in the link, nearest
+// that district's center first. None when the link names no known district
+function getSuggestions(meetingId: string, meetings: Meeting[]): Meeting[] {
+  const district = getDistrict(findIdDistrictId(meetingId, districts.map(candidate => candidate.id)) || '');
+  if (!district) return [];
+
+  const closest = findClosestMeeting(meetingId, meetings);
+  const nearby = meetings
+    .filter(meeting => meeting !== closest && meeting.district === district.id && meeting.coordinates)
+    .sort((a, b) => distanceInMiles(district.center, a.coordinates!) - distanceInMiles(district.center, b.coordinates!));
+  return (closest ? [closest, ...nearby] : nearby).slice(0, SUGGESTION_COUNT);
+}
+
+export default function MeetingDetailPage({ meetingId, meetings, isLoading, onBack }: MeetingDetailPageProps) {
+  const { locale, t, formatDay, formatMeetingTime } = useI18n();
+  const meeting = meetings.find(candidate => candidate.id === meetingId);
+
+  const backButton = (
+    <Button startIcon={<ArrowBack />} onClick={onBack} sx={{ mb: 2, color: BRAND_COLOR, textTransform: 'none' }}>
+      {t('detail.back')}
+    </Button>
+  );
+
+  if (isLoading) {
+    return (
+      <Box>
+        {backButton}
+        <Alert severity="info">{t('detail.loading')}</Alert>
+      </Box>
+    );
+  }
+
+  if (!meeting) {
+    const suggestions = getSuggestions(meetingId, meetings);
+    return (
+      <Box>
+        {backButton}
+        <Paper sx={{ p: { xs: 2, md: 3 } }}>
+          <Typography variant="h5" component="h2" gutterBottom sx={{ color: BRAND_COLOR }}>
+            {t('detail.notFound')}
+          </Typography>
+          <Typography variant="body1" sx={{ mb: 2 }}>
+            {t('detail.notFoundBody')}
+          </Typography>
+          {suggestions.length > 0 && (
+            <>
+              <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                {t('detail.nearby')}
+              </Typography>
+              <List>
+                {suggestions.map(suggestion => (
+                  <ListItem key={suggestion.id} divider disableGutters>
+                    <ListItemText
+                      primary={<RouteLink to={getMeetingPath(suggestion.id)}>{suggestion.name}</RouteLink>}
+                      secondary={`${t('meeting.when', { day: formatDay(suggestion.day), time: formatMeetingTime(suggestion) })}${suggestion.address ? ` · ${cleanAddressDisplay(suggestion.address)}` : ''}`}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </>
+          )}
+        </Paper>
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {backButton}
+      <Paper sx={{ p: { xs: 2, md: 3 } }}>
+        <Typography variant="h4" component="h2" gutterBottom sx={{ color: BRAND_COLOR, fontSize: { xs: '1.6rem', md: '2.125rem' } }}>
+          {meeting.name}
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+          <Chip label={t(`type.${meeting.type}`)} size="small" />
+          {getFormatTags(meeting.format).map(tag => <Chip key={tag} label={formatFormatTag(tag, locale)} size="small" />)}
+          {meeting.languages.map(language => <Chip key={language} label={formatLanguageName(language, locale)} size="small" variant="outlined" />)}
+          <Chip label={getDistrict(meeting.district)?.name || meeting.district} size="small" variant="outlined" />
+        </Box>
+
+        <Typography variant="h6" sx={{ color: 'text.primary' }}>
+          {t('meeting.when', { day: formatDay(meeting.day), time: formatMeetingTime(meeting) })}
+        </Typography>
+        <ViewerTimeNote meeting={meeting} />
+        {meeting.description && (
+          <Typography variant="body1" sx={{ color: 'text.secondary', mb: 1 }}>
+            {meeting.description}
+          </Typography>
+        )}
+
+        {meeting.address && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+            <Typography variant="body1">{cleanAddressDisplay(meeting.address)}</Typography>
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<Directions />}
+              href={getDirectionsUrl(meeting.address)}
+              target="_blank"
+              rel="noopener noreferrer"
+              sx={{ textTransform: 'none' }}
+            >
+              {t('meeting.directions')}
+            </Button>
+          </Box>
+        )}
+
+        {meeting.type !== 'virtual' && (
+          <Box sx={{ mb: 2 }}>
+            <AmenityIcons amenities={meeting.amenities} showLabels />
+          </Box>
+        )}
+
+        {meeting.coordinates && meeting.type !== 'virtual' && (
+          <Box sx={{ height: 250, mb: 2 }}>
+            <MapContainer
+              center={meeting.coordinates}
+              zoom={15}
+              scrollWheelZoom={false}
+              style={{ height: '100%', width: '100%' }}
+            >
+              <TileLayer
+                url={TILE_URL_TEMPLATE}
+                attribution={TILE_ATTRIBUTION}
+                subdomains={TILE_SUBDOMAINS}
+                crossOrigin="anonymous"
+              />
+              <Marker position={meeting.coordinates} icon={createNumberedMarkerIcon(1, false)} />
+            </MapContainer>
+          </Box>
+        )}
+
+        {meeting.virtualAccess && (
+          <Box sx={{ mb: 2 }}>
+            <VirtualAccessDetails access={meeting.virtualAccess} />
+          </Box>
+        )}
+
+        {meeting.notes && (
+          <Typography variant="body1" sx={{ whiteSpace: 'pre-line', mb: 2 }}>
+            {meeting.notes}
+          </Typography>
+        )}
+
+        {meeting.Contact && (
+          <Typography variant="body2" sx={{ color: 'text.secondary', mb: 1 }}>
+            {t('meeting.contact', { contact: meeting.Contact })}
+          </Typography>
+        )}
+
+        <AddToCalendarButton meeting={meeting} />
+      </Paper>
+    </Box>
+  );
+}
@@ -0,0 +1,296 @@
+import { useState, useEffect } from 'react';
+import {
+  Paper, Typography, Box, Button, Alert, IconButton, Chip, Tooltip,
+  Table, TableHead, TableBody, TableRow, TableCell, TableContainer,
+  FormControl, InputLabel, Select, MenuItem
+} from '@mui/material';
+import { ArrowBack, Add, Edit, Delete, FileDownload } from '@mui/icons-material';
+import { MapContainer, TileLayer, Marker, Tooltip as MapTooltip } from 'react-leaflet';
+import { districts, getDistrict } from '../data/districts';
+import { MeetingRow, parseMeetingRow, parseMeetingCsvRows, serializeMeetingRows } from '../utils/meetingCsv';
+import { ValidationIssue, validateMeetingRows } from '../utils/validation';
+import { geocodeAddress, getCachedCoordinates, loadCoordinatesFile } from '../utils/geocoding';
+import { createNumberedMarkerIcon } from '../utils/markers';
+import { downloadFile } from '../utils/download';
+import { TILE_URL_TEMPLATE, TILE_ATTRIBUTION, TILE_SUBDOMAINS } from '../utils/tiles';
+import MeetingRowDialog from './MeetingRowDialog';
+import { BRAND_COLOR } from '../utils/siteConfig';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface MeetingEditorProps {
+  onBack: () => void;
+}
+
+// editingIndex while adding a meeting
+const NEW_ROW = -1;
+
+// Districts kept as CSV in /public; feeds from other sites are edited at the source
+const csvDistricts = districts.filter(district => district.dataFormat === 'csv');
+
+function getFilename(csvPath: string): string {
+  return csvPath.split('/').pop() || 'meetings.csv';
+}
+
+// Form-based editor for a district's CSV: loads the deployed file, checks each
+// row against the same schema as `npm run validate`, and exports a corrected copy
+export default function MeetingEditor({ onBack }: MeetingEditorProps) {
+  const { t } = useI18n();
+  const [districtId, setDistrictId] = useState<string>(csvDistricts[0].id);
+  const [rows, setRows] = useState<MeetingRow[]>([]);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hasChanges, setHasChanges] = useState<boolean>(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  // Addresses placed while editing, keyed by address; the rest come from coordinates.json
+  const [geocoded, setGeocoded] = useState<Map<string, [number, number] | null>>(new Map());
+  const district = getDistrict(districtId) || csvDistricts[0];
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    Promise.all([
+      fetch(district.dataPath).then(response => {
+        if (!response.ok) throw new Error(t('editor.loadError', { file: getFilename(district.dataPath) }));
+        return response.text();
+      }),
+      loadCoordinatesFile()
+    ])
+      .then(([csv]) => {
+        if (cancelled) return;
+        const parsed = parseMeetingCsvRows(csv);
+        setRows(parsed.rows);
+        setColumns(parsed.columns);
+        setHasChanges(false);
+        setIsLoading(false);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : t('app.loadError'));
+        setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [district.dataPath]);
+
+  useEffect(() => {
+    // Warn before leaving with edits that haven't been exported
+    if (!hasChanges) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasChanges]);
+
+  // Meetings as the finder would show them, for the map preview
+  const previewMeetings = rows
+    .map((row, index) => ({ index, meeting: parseMeetingRow(row, district.id) }))
+    .filter(({ meeting }) => meeting && meeting.address && meeting.type !== 'virtual')
+    .map(({ index, meeting }) => ({ index, meeting: meeting!, coordinates: geocoded.has(meeting!.address) ? geocoded.get(meeting!.address) : getCachedCoordinates(meeting!.address) }));
+
+  useEffect(() => {
+    // Place new or changed addresses on the preview map
+    let cancelled = false;
+    previewMeetings
+      .filter(preview => preview.coordinates === undefined)
+      .forEach(preview => {
+        geocodeAddress(preview.meeting.address).then(coordinates => {
+          if (!cancelled) setGeocoded(current => new Map(current).set(preview.meeting.address, coordinates));
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rows]);
+
+  const issues = validateMeetingRows(rows, columns);
+  const issuesByRow = new Map<number, ValidationIssue[]>();
+  issues.forEach(issue => {
+    issuesByRow.set(issue.row, [...(issuesByRow.get(issue.row) || []), issue]);
+  });
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+  const confirmDiscard = () => !hasChanges || window.confirm(t('editor.confirmDiscard'));
+
+  const handleDistrictChange = (id: string) => {
+    if (confirmDiscard()) setDistrictId(id);
+  };
+
+  const handleSave = (row: MeetingRow) => {
+    setRows(prev => editingIndex === NEW_ROW
+      ? [...prev, row]
+      : prev.map((existing, index) => index === editingIndex ? row : existing));
+    setHasChanges(true);
+    setEditingIndex(null);
+  };
+
+  const handleDelete = (index: number) => {
+    if (!window.confirm(t('editor.confirmDelete', { name: rows[index].name || t('editor.thisMeeting') }))) return;
+    setRows(prev => prev.filter((_, i) => i !== index));
+    setHasChanges(true);
+  };
+
+  const handleExport = () => {
+    downloadFile(serializeMeetingRows(rows, columns), 'text/csv;charset=utf-8', getFilename(district.dataPath));
+    setHasChanges(false);
+  };
+
+  const headerIssues = issuesByRow.get(0) || [];
+  const located = previewMeetings.filter(preview => preview.coordinates);
+
+  return (
+    <Box>
+      <Button startIcon={<ArrowBack />} onClick={() => confirmDiscard() && onBack()} sx={{ mb: 2, color: BRAND_COLOR, textTransform: 'none' }}>
+        {t('editor.back')}
+      </Button>
+
+      <Paper sx={{ p: { xs: 2, md: 3 }, mb: 3 }}>
+        <Typography variant="h5" component="h2" gutterBottom sx={{ color: BRAND_COLOR }}>
+          {t('editor.title')}
+        </Typography>
+        <Typography variant="body2" sx={{ color: 'text.secondary', mb: 2 }}>
+          {t('editor.intro', { file: getFilename(district.dataPath) })}
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 240 }}>
+            <InputLabel>{t('editor.district')}</InputLabel>
+            <Select value={districtId} label={t('editor.district')} onChange={(e: any) => handleDistrictChange(e.target.value)}>
+              {csvDistricts.map(option => (
+                <MenuItem key={option.id} value={option.id}>{option.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button variant="outlined" startIcon={<Add />} onClick={() => setEditingIndex(NEW_ROW)} disabled={isLoading || !!error}>
+            {t('editor.add')}
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<FileDownload />}
+            onClick={handleExport}
+            disabled={isLoading || !!error}
+            sx={{ bgcolor: BRAND_COLOR }}
+          >
+            {t('editor.export')}
+          </Button>
+          {hasChanges && <Chip label={t('editor.unsaved')} color="warning" size="small" />}
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {isLoading && <Alert severity="info" sx={{ mb: 2 }}>{t('editor.loading')}</Alert>}
+        {headerIssues.map((issue, index) => (
+          <Alert key={index} severity={issue.severity} sx={{ mb: 2 }}>{t(issue.messageKey, issue.messageParams)}</Alert>
+        ))}
+        {!isLoading && !error && errorCount > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {t('editor.problems', { count: errorCount })}
+          </Alert>
+        )}
+
+        {!isLoading && !error && (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>#</TableCell>
+                  <TableCell>{t('editor.name')}</TableCell>
+                  <TableCell>{t('editor.day')}</TableCell>
+                  <TableCell>{t('editor.time')}</TableCell>
+                  <TableCell>{t('editor.type')}</TableCell>
+                  <TableCell>{t('editor.address')}</TableCell>
+                  <TableCell>{t('editor.checks')}</TableCell>
+                  <TableCell align="right">{t('editor.actions')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.map((row, index) => {
+                  const rowIssues = issuesByRow.get(index + 1) || [];
+                  const rowErrors = rowIssues.filter(issue => issue.severity === 'error').length;
+                  return (
+                    <TableRow key={index} hover>
+                      <TableCell>{index + 1}</TableCell>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell>{row.day}</TableCell>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>{row.timeDisplay}</TableCell>
+                      <TableCell>{row.type}</TableCell>
+                      <TableCell>{row.address}</TableCell>
+                      <TableCell>
+                        {rowIssues.length === 0 ? (
+                          <Chip label={t('editor.ok')} color="success" size="small" variant="outlined" />
+                        ) : (
+                          <Tooltip title={rowIssues.map(issue => `${issue.field}: ${t(issue.messageKey, issue.messageParams)}`).join('; ')}>
+                            <Chip
+                              label={t('editor.issues', { count: rowIssues.length })}
+                              color={rowErrors > 0 ? 'error' : 'warning'}
+                              size="small"
+                            />
+                          </Tooltip>
+                        )}
+                      </TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        <IconButton size="small" aria-label={t('editor.edit')} onClick={() => setEditingIndex(index)}>
+                          <Edit fontSize="small" />
+                        </IconButton>
+                        <IconButton size="small" aria-label={t('editor.delete')} onClick={() => handleDelete(index)}>
+                          <Delete fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+
+      <Paper sx={{ p: { xs: 2, md: 3 } }}>
+        <Typography variant="h6" gutterBottom sx={{ color: BRAND_COLOR }}>
+          {t('editor.mapPreview')}
+        </Typography>
+        <Typography variant="body2" sx={{ color: 'text.secondary', mb: 2 }}>
+          {t('editor.placed', { placed: located.length, total: previewMeetings.length })}
+        </Typography>
+        <Box sx={{ height: 400 }}>
+          <MapContainer
+            key={district.id}
+            center={district.center}
+            zoom={district.zoom}
+            style={{ height: '100%', width: '100%' }}
+          >
+            <TileLayer
+              url={TILE_URL_TEMPLATE}
+              attribution={TILE_ATTRIBUTION}
+              subdomains={TILE_SUBDOMAINS}
+              crossOrigin="anonymous"
+            />
+            {located.map(preview => (
+              <Marker
+                key={preview.index}
+                position={preview.coordinates!}
+                icon={createNumberedMarkerIcon(preview.index + 1, false)}
+              >
+                <MapTooltip>{preview.meeting.name}</MapTooltip>
+              </Marker>
+            ))}
+          </MapContainer>
+        </Box>
+      </Paper>
+
+      <MeetingRowDialog
+        open={editingIndex !== null}
+        row={editingIndex !== null && editingIndex !== NEW_ROW ? rows[editingIndex] : null}
+        columns={columns}
+        onSave={handleSave}
+        onClose={() => setEditingIndex(null)}
+      />
+    </Box>
+  );
+}
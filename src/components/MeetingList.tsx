@@ -1,11 +1,40 @@
-import { List, ListItem, ListItemText, Typography, Box, Chip } from '@mui/material';
+import { List, ListItem, ListItemText, Typography, Box, Chip, alpha } from '@mui/material';
 import { Meeting } from '../types/Meeting';
+import { getDistrict } from '../data/districts';
+import { formatDistance } from '../utils/geo';
+import { cleanAddressDisplay } from '../utils/address';
+import { getMeetingPath } from '../utils/routes';
+import { getFormatTags } from '../utils/filterOptions';
+import AddToCalendarButton from './AddToCalendarButton';
+import HighlightedText from './HighlightedText';
+import VirtualAccessDetails from './VirtualAccessDetails';
+import RouteLink from './RouteLink';
+import ViewerTimeNote from './ViewerTimeNote';
+import SaveMeetingButton from './SaveMeetingButton';
+import AmenityIcons from './AmenityIcons';
+import { formatFormatTag, formatLanguageName } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { BRAND_COLOR } from '../utils/siteConfig';
 
 interface MeetingListProps {
   meetings: Meeting[];
+  countdowns?: Map<Meeting, string>; // "happening now" status per meeting
+  searchTerms?: string[]; // highlighted wherever they match
+  distances?: Map<Meeting, number>; // miles from the "near me" location
+  selectedId?: string; // meeting whose map popup is open
+  onSelect?: (meeting: Meeting) => void;
+  onHover?: (meeting: Meeting | null) => void;
+  savedIds?: Set<string>; // meetings in "my meetings"
+  onToggleSaved?: (meeting: Meeting) => void;
 }
 
-const getTypeColor = (type: string) => {
+// Element id of a meeting's list item, for scrolling it into view
+export function getListItemId(meeting: Meeting): string {
+  return `meeting-list-${meeting.id}`;
+}
+
+// Colors for meeting types, shared with the week calendar
+export const getTypeColor = (type: string) => {
   switch (type.toLowerCase()) {
     case 'in-person':
       return '#4caf50';
@@ -31,70 +60,44 @@ const getTimeColor = (time: string) => {
   }
 };
 
-const capitalizeLabel = (str: string) => {
-  if (!str) return '';
-  if (str.toLowerCase() === 'in-person') return 'In-person';
-  return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase();
-};
-
-// Function to clean up address display (remove state and zip)
-function cleanAddressDisplay(address: string): string {
-  if (!address) return '';
-  
-  // Remove state and zip code patterns like ", ME 04032" or ", Maine 04032"
-  return address
-    .replace(/,\s*ME\s+\d{5}(-\d{4})?/gi, '') // Remove ", ME 04032" or ", ME 04032-1234"
-    .replace(/,\s*Maine\s+\d{5}(-\d{4})?/gi, '') // Remove ", Maine 04032"
-    .replace(/,\s*ME$/gi, '') // Remove trailing ", ME"
-    .replace(/,\s*Maine$/gi, '') // Remove trailing ", Maine"
-    .trim();
-};
-
-// Function to create Zoom link from meeting data
-function createZoomLink(meeting: Meeting): string | null {
-  // Look for Zoom information in notes field (where it's actually stored)
-  const zoomText = meeting.notes || meeting.zoomId || '';
-  if (!zoomText) return null;
-  
-  // Extract meeting ID from notes or zoomId
-  const meetingIdMatch = zoomText.match(/Zoom ID:\s*(\d{9,11})/i);
-  if (!meetingIdMatch) return null;
-  
-  const meetingId = meetingIdMatch[1];
-  
-  // Look for password in the same text
-  let password = '';
-  const passwordMatch = zoomText.match(/[Pp]asscode?:\s*(\d+)/i);
-  if (passwordMatch) {
-    password = passwordMatch[1];
-  }
-  
-  // Create Zoom link
-  if (password) {
-    return `https://zoom.us/j/${meetingId}?pwd=${password}`;
-  } else {
-    return `https://zoom.us/j/${meetingId}`;
-  }
-}
+export default function MeetingList({ meetings, countdowns, searchTerms = [], distances, selectedId, onSelect, onHover, savedIds, onToggleSaved }: MeetingListProps) {
+  const { locale, t, formatDay, formatMeetingTime } = useI18n();
 
-export default function MeetingList({ meetings }: MeetingListProps) {
   if (!meetings || meetings.length === 0) {
     return (
       <Typography variant="body1" align="center">
-        No meetings found matching your criteria.
+        {t('results.none')}
       </Typography>
     );
   }
 
-  const formatDay = (day: string | undefined | null): string => {
-    if (!day) return 'Unknown';
-    return day.charAt(0).toUpperCase() + day.slice(1);
-  };
+  // The contact is highlighted on its own, so it goes where the translation puts it
+  const [contactPrefix, contactSuffix] = t('meeting.contact').split('{contact}');
+
+  // Meetings sharing the selected meeting's map marker are highlighted with it
+  const selectedMeeting = selectedId ? meetings.find(meeting => meeting.id === selectedId) : undefined;
+  const selectedLocation = selectedMeeting?.coordinates?.join(',');
 
   return (
     <List>
-      {meetings.map((meeting, index) => (
-        <ListItem key={index} divider>
+      {meetings.map((meeting) => (
+        <ListItem
+          key={meeting.id}
+          id={getListItemId(meeting)}
+          divider
+          onClick={() => onSelect && onSelect(meeting)}
+          onMouseEnter={() => onHover && onHover(meeting)}
+          onMouseLeave={() => onHover && onHover(null)}
+          sx={{
+            cursor: onSelect ? 'pointer' : undefined,
+            borderLeft: '4px solid',
+            borderLeftColor: meeting.id === selectedId ? BRAND_COLOR : 'transparent',
+            backgroundColor: meeting.id === selectedId
+              ? alpha(BRAND_COLOR, 0.08)
+              : selectedLocation && meeting.coordinates?.join(',') === selectedLocation ? alpha(BRAND_COLOR, 0.03) : undefined,
+            '&:hover': onSelect ? { backgroundColor: alpha(BRAND_COLOR, 0.05) } : undefined
+          }}
+        >
           <ListItemText
             primary={
               <Box sx={{ 
@@ -104,16 +107,23 @@ export default function MeetingList({ meetings }: MeetingListProps) {
                 mb: 1,
                 flexWrap: 'wrap' // Allow chips to wrap on mobile
               }}>
+                {onToggleSaved && (
+                  <SaveMeetingButton
+                    saved={!!savedIds?.has(meeting.id)}
+                    onToggle={() => onToggleSaved(meeting)}
+                  />
+                )}
                 <Typography variant="subtitle1" sx={{ 
                   fontWeight: 'bold', 
                   color: 'text.primary',
                   fontSize: { xs: '0.9rem', sm: '1rem' } // Smaller text on mobile
                 }}>
-                  {meeting.name}
+                  <HighlightedText text={meeting.name} terms={searchTerms} />
                 </Typography>
-                {meeting.format && (
+                {getFormatTags(meeting.format).map(tag => (
                   <Chip
-                    label={capitalizeLabel(meeting.format)}
+                    key={tag}
+                    label={formatFormatTag(tag, locale)}
                     size="small"
                     sx={{ 
                       backgroundColor: '#455a64', 
@@ -122,9 +132,9 @@ export default function MeetingList({ meetings }: MeetingListProps) {
                       fontSize: { xs: '0.7rem', sm: '0.75rem' } // Smaller chips on mobile
                     }}
                   />
-                )}
+                ))}
                 <Chip
-                  label={capitalizeLabel(meeting.type)}
+                  label={t(`type.${meeting.type}`)}
                   size="small"
                   sx={{
                     backgroundColor: getTypeColor(meeting.type),
@@ -134,7 +144,7 @@ export default function MeetingList({ meetings }: MeetingListProps) {
                   }}
                 />
                 <Chip
-                  label={capitalizeLabel(meeting.time)}
+                  label={t(`timeOfDay.${meeting.time}`)}
                   size="small"
                   sx={{
                     backgroundColor: getTimeColor(meeting.time),
@@ -143,57 +153,59 @@ export default function MeetingList({ meetings }: MeetingListProps) {
                     fontSize: { xs: '0.7rem', sm: '0.75rem' }
                   }}
                 />
+                {meeting.languages.length > 0 && (
+                  <Chip
+                    label={meeting.languages.map(language => formatLanguageName(language, locale)).join(', ')}
+                    size="small"
+                    variant="outlined"
+                    sx={{ fontWeight: 'medium', fontSize: { xs: '0.7rem', sm: '0.75rem' } }}
+                  />
+                )}
               </Box>
             }
             secondary={
               <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                {countdowns?.get(meeting) && (
+                  <Typography variant="body2" sx={{ color: 'success.dark', fontWeight: 'bold' }}>
+                    {countdowns.get(meeting)}
+                  </Typography>
+                )}
                 <Typography variant="body2" sx={{ color: 'text.primary', fontWeight: 'medium' }}>
-                  {formatDay(meeting.day)} at {capitalizeLabel(meeting.timeDisplay)}
+                  {t('meeting.when', { day: formatDay(meeting.day), time: formatMeetingTime(meeting) })}
                 </Typography>
+                <ViewerTimeNote meeting={meeting} />
                 {meeting.description && (
                   <Typography variant="body2" sx={{ color: 'text.secondary' }}>
-                    {meeting.description}
+                    <HighlightedText text={meeting.description} terms={searchTerms} />
                   </Typography>
                 )}
-                {(meeting.zoomId || (meeting.notes && meeting.notes.includes('Zoom ID'))) && (
-                  <Box>
-                    {createZoomLink(meeting) ? (
-                      <Typography variant="body2" sx={{ color: 'text.primary' }}>
-                        <a 
-                          href={createZoomLink(meeting)!} 
-                          target="_blank" 
-                          rel="noopener noreferrer"
-                          style={{ 
-                            color: '#1976d2', 
-                            textDecoration: 'none',
-                            fontWeight: 'medium'
-                          }}
-                          onMouseEnter={(e) => e.currentTarget.style.textDecoration = 'underline'}
-                          onMouseLeave={(e) => e.currentTarget.style.textDecoration = 'none'}
-                        >
-                          🎥 Join Zoom Meeting
-                        </a>
-                      </Typography>
-                    ) : (
-                      <Typography variant="body2" sx={{ color: 'text.primary' }}>
-                        Zoom: {meeting.zoomId}
-                      </Typography>
-                    )}
-                  </Box>
+                {meeting.virtualAccess && (
+                  <VirtualAccessDetails access={meeting.virtualAccess} />
                 )}
                 {meeting.notes && (
                   <Typography variant="body2" sx={{ color: 'text.secondary', whiteSpace: 'pre-line' }}>
-                    {meeting.notes}
+                    <HighlightedText text={meeting.notes} terms={searchTerms} />
                   </Typography>
                 )}
                 <Typography variant="body2" sx={{ color: 'text.secondary' }}>
-                  {cleanAddressDisplay(meeting.address)}
+                  <HighlightedText text={cleanAddressDisplay(meeting.address)} terms={searchTerms} />
+                  {distances?.has(meeting) && ` · ${t('meeting.away', { distance: formatDistance(distances.get(meeting)!) })}`}
                 </Typography>
+                {meeting.type !== 'virtual' && <AmenityIcons amenities={meeting.amenities} />}
                 {meeting.Contact && (
                   <Typography variant="body2" sx={{ color: 'text.secondary' }}>
-                    Contact: {meeting.Contact}
+                    {contactPrefix}<HighlightedText text={meeting.Contact} terms={searchTerms} />{contactSuffix}
                   </Typography>
                 )}
+                <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                  {getDistrict(meeting.district)?.name}
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+                  <AddToCalendarButton meeting={meeting} />
+                  <RouteLink to={getMeetingPath(meeting.id)} style={{ fontSize: '0.8125rem' }}>
+                    {t('meeting.moreDetails')}
+                  </RouteLink>
+                </Box>
               </Box>
             }
           />
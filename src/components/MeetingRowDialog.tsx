@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, MenuItem, Box, Alert } from '@mui/material';
+import { MeetingRow } from '../utils/meetingCsv';
+import { meetingCsvSchema, validateMeetingRows } from '../utils/validation';
+import { AMENITIES } from '../utils/amenities';
+import { BRAND_COLOR } from '../utils/siteConfig';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface MeetingRowDialogProps {
+  open: boolean;
+  row: MeetingRow | null; // null when adding a meeting
+  columns: string[];
+  onSave: (row: MeetingRow) => void;
+  onClose: () => void;
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Allowed values for the columns that have a fixed set, as written in the CSV
+const columnOptions: Record<string, string[]> = {
+  day: meetingCsvSchema.days.map(capitalize),
+  time: meetingCsvSchema.times,
+  type: meetingCsvSchema.types,
+  ...Object.fromEntries(AMENITIES.map(amenity => [amenity.column, meetingCsvSchema.amenityValues]))
+};
+
+const columnLabels: Record<string, MessageKey> = {
+  name: 'column.name',
+  description: 'column.description',
+  day: 'column.day',
+  time: 'column.time',
+  timeDisplay: 'column.timeDisplay',
+  type: 'column.type',
+  address: 'column.address',
+  Contact: 'column.Contact',
+  Zoomid: 'column.Zoomid',
+  Notes: 'column.Notes',
+  format: 'column.format',
+  platform: 'column.platform',
+  meetingId: 'column.meetingId',
+  passcode: 'column.passcode',
+  joinUrl: 'column.joinUrl',
+  dialIn: 'column.dialIn',
+  timeZone: 'column.timeZone',
+  language: 'column.language',
+  ...Object.fromEntries(AMENITIES.map(amenity => [amenity.column, `amenity.${amenity.key}` as MessageKey]))
+};
+
+const multilineColumns = ['Notes', 'Zoomid', 'dialIn'];
+
+// Form for adding or editing one CSV row, checked as it is typed
+export default function MeetingRowDialog({ open, row, columns, onSave, onClose }: MeetingRowDialogProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<MeetingRow>({});
+
+  useEffect(() => {
+    if (open) setDraft(row ? { ...row } : {});
+  }, [open, row]);
+
+  // Row-level checks only; duplicates are reported in the table
+  const issues = validateMeetingRows([draft]);
+  const getIssue = (column: string) => issues.find(issue => issue.field === column);
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+  // Problems in columns this CSV doesn't have a field for
+  const otherIssues = issues.filter(issue => !columns.includes(issue.field));
+
+  const handleChange = (column: string, value: string) => {
+    setDraft(prev => ({ ...prev, [column]: value }));
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{row ? t('editor.edit') : t('editor.add')}</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {otherIssues.map((issue, index) => (
+            <Alert key={index} severity={issue.severity}>{t(issue.messageKey, issue.messageParams)}</Alert>
+          ))}
+          {columns.map(column => {
+            const issue = getIssue(column);
+            const value = draft[column] || '';
+            // Keep an unexpected existing value selectable so it can be seen and corrected
+            const options = columnOptions[column] && value && !columnOptions[column].includes(value)
+              ? [...columnOptions[column], value]
+              : columnOptions[column];
+            return (
+              <TextField
+                key={column}
+                label={columnLabels[column] ? t(columnLabels[column]) : column}
+                value={value}
+                onChange={(e) => handleChange(column, e.target.value)}
+                select={!!options}
+                multiline={multilineColumns.includes(column)}
+                minRows={multilineColumns.includes(column) ? 2 : undefined}
+                required={meetingCsvSchema.requiredColumns.includes(column)}
+                error={issue?.severity === 'error'}
+                helperText={issue && t(issue.messageKey, issue.messageParams)}
+                size="small"
+                fullWidth
+              >
+                {options && [
+                  <MenuItem key="" value="">
+                    <em>{AMENITIES.some(amenity => amenity.column === column) ? t('editor.unknown') : t('editor.none')}</em>
+                  </MenuItem>,
+                  ...options.map(option => (
+                    <MenuItem key={option} value={option}>{option}</MenuItem>
+                  ))
+                ]}
+              </TextField>
+            );
+          })}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('editor.cancel')}</Button>
+        <Button variant="contained" onClick={() => onSave(draft)} disabled={hasErrors} sx={{ bgcolor: BRAND_COLOR }}>
+          {t('editor.save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { FormControl, InputLabel, Select, MenuItem, Box, Button, TextField, IconButton, Chip, Typography, InputAdornment } from '@mui/material';
+import MyLocationIcon from '@mui/icons-material/MyLocation';
+import SearchIcon from '@mui/icons-material/Search';
+import { useI18n } from '../i18n/I18nProvider';
+import { BRAND_COLOR } from '../utils/siteConfig';
+
+export interface SearchOrigin {
+  coordinates: [number, number]; // [latitude, longitude]
+  label: string; // the place typed, or blank for the device's own location
+}
+
+interface NearMeControlsProps {
+  origin: SearchOrigin | null;
+  radiusMiles: number; // 0 means any distance
+  onOriginChange: (origin: SearchOrigin | null) => void;
+  onRadiusChange: (miles: number) => void;
+  geocodePlace: (place: string) => Promise<[number, number] | null>;
+  color?: string;
+}
+
+const radiusOptions = [5, 10, 25];
+
+export default function NearMeControls({
+  origin,
+  radiusMiles,
+  onOriginChange,
+  onRadiusChange,
+  geocodePlace,
+  color = BRAND_COLOR
+}: NearMeControlsProps) {
+  const { t } = useI18n();
+  const [place, setPlace] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      setMessage(t('near.noGeolocation'));
+      return;
+    }
+    setIsLocating(true);
+    setMessage(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        onOriginChange({
+          coordinates: [position.coords.latitude, position.coords.longitude],
+          label: ''
+        });
+      },
+      () => {
+        setIsLocating(false);
+        setMessage(t('near.locationFailed'));
+      },
+      { timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  };
+
+  const handlePlaceSearch = async () => {
+    const query = place.trim();
+    if (!query) return;
+    setIsLocating(true);
+    setMessage(null);
+    try {
+      const coordinates = await geocodePlace(`${query}, USA`);
+      if (coordinates) {
+        onOriginChange({ coordinates, label: query });
+      } else {
+        setMessage(t('near.notFound', { place: query }));
+      }
+    } catch (error) {
+      console.warn('Place search failed:', error);
+      setMessage(t('near.notFound', { place: query }));
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  return (
+    <Box sx={{ 
+      display: 'flex', 
+      gap: { xs: 1, sm: 2 }, 
+      alignItems: 'center',
+      flexWrap: 'wrap'
+    }}>
+      <Button
+        variant="outlined"
+        size="small"
+        startIcon={<MyLocationIcon />}
+        onClick={handleUseMyLocation}
+        disabled={isLocating}
+        sx={{ color, borderColor: color, textTransform: 'none' }}
+      >
+        {t('near.useLocation')}
+      </Button>
+      <TextField
+        value={place}
+        onChange={(e) => setPlace(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handlePlaceSearch()}
+        placeholder={t('near.placePlaceholder')}
+        size="small"
+        inputProps={{ 'aria-label': t('near.placeLabel') }}
+        InputProps={{
+          endAdornment: (
+            <InputAdornment position="end">
+              <IconButton size="small" onClick={handlePlaceSearch} disabled={isLocating} aria-label={t('near.find')}>
+                <SearchIcon fontSize="small" />
+              </IconButton>
+            </InputAdornment>
+          )
+        }}
+        sx={{ minWidth: { xs: 150, sm: 180 } }}
+      />
+      {origin && (
+        <>
+          <FormControl sx={{ minWidth: { xs: 120, sm: 150 } }}>
+            <InputLabel sx={{ color, fontSize: { xs: '0.9rem', sm: '1rem' } }}>{t('near.within')}</InputLabel>
+            <Select
+              value={radiusMiles}
+              label={t('near.within')}
+              onChange={(e: any) => onRadiusChange(Number(e.target.value))}
+              sx={{ color }}
+              size="small"
+            >
+              <MenuItem value={0}>{t('near.anyDistance')}</MenuItem>
+              {radiusOptions.map((miles) => (
+                <MenuItem key={miles} value={miles}>
+                  {t('near.miles', { count: miles })}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Chip
+            label={t('near.chip', { place: origin.label || t('near.yourLocation') })}
+            onDelete={() => onOriginChange(null)}
+            size="small"
+            sx={{ color, borderColor: color }}
+            variant="outlined"
+          />
+        </>
+      )}
+      {message && (
+        <Typography variant="caption" sx={{ color: 'error.main', flexBasis: '100%' }}>
+          {message}
+        </Typography>
+      )}
+    </Box>
+  );
+}
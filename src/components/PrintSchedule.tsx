@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { Box, Typography, Button, Alert, FormControl, InputLabel, Select, MenuItem, GlobalStyles } from '@mui/material';
+import { ArrowBack, Print } from '@mui/icons-material';
+import { Meeting } from '../types/Meeting';
+import { cleanAddressDisplay } from '../utils/address';
+import { DAYS } from '../utils/time';
+import { Schedule, getFilterSchedule } from '../utils/timeZone';
+import { getFormatTags } from '../utils/filterOptions';
+import { getPlatformLabel, formatMeetingId } from '../utils/virtualAccess';
+import { getMeetingPath } from '../utils/routes';
+import QrCode from './QrCode';
+import { Locale, translate, formatFormatTag, formatTimeRange } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { BRAND_COLOR } from '../utils/siteConfig';
+
+type QrCodeMode = 'none' | 'site' | 'meetings';
+
+interface PrintScheduleProps {
+  meetings: Meeting[];
+  title: string; // e.g. "District 4 Meetings"
+  siteUrl: string; // live version of this schedule
+  isLoading: boolean;
+  now: Date;
+  onBack: () => void;
+}
+
+interface PrintItem {
+  meeting: Meeting;
+  schedule: Schedule | null; // null when the day or time couldn't be read
+}
+
+// Function to group meetings by day, each day sorted by start time. Virtual and
+// hybrid meetings go by the reader's clock, as in the finder's filters and week
+// view; meetings without a readable day and time go last, with a blank day
+function groupMeetingsByDay(meetings: Meeting[], now: Date): Array<{ day: string, items: PrintItem[] }> {
+  const byStart = meetings
+    .map(meeting => ({ meeting, schedule: getFilterSchedule(meeting, now) }))
+    .sort((a, b) =>
+      (a.schedule?.startMinutes ?? Number.MAX_VALUE) - (b.schedule?.startMinutes ?? Number.MAX_VALUE) ||
+      a.meeting.name.localeCompare(b.meeting.name)
+    );
+  const groups = DAYS.map((day, dayIndex) => ({
+    day,
+    items: byStart.filter(({ schedule }) => schedule?.dayIndex === dayIndex)
+  }));
+  groups.push({ day: '', items: byStart.filter(({ schedule }) => schedule === null) });
+  return groups.filter(group => group.items.length > 0);
+}
+
+// Chips on screen become plain text on paper
+function getTagsText(meeting: Meeting, locale: Locale): string {
+  const type = translate(locale, `type.${meeting.type}`);
+  return [type, ...getFormatTags(meeting.format).map(tag => formatFormatTag(tag, locale))].join(' · ');
+}
+
+// Component for one meeting in the printed schedule
+function PrintEntry({ item, showQrCode }: { item: PrintItem, showQrCode: boolean }) {
+  const { meeting, schedule } = item;
+  const { locale, t, formatMeetingTime } = useI18n();
+  const access = meeting.virtualAccess;
+  const platform = access ? getPlatformLabel(access.platform) : '';
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      gap: 1,
+      mb: 1.5,
+      breakInside: 'avoid',
+      pageBreakInside: 'avoid'
+    }}>
+      <Box sx={{ flex: 1, minWidth: 0, fontSize: '0.85rem', lineHeight: 1.35 }}>
+        <Typography component="div" sx={{ fontWeight: 'bold', fontSize: 'inherit' }}>
+          {schedule ? formatTimeRange(schedule.startMinutes, schedule.endMinutes, locale) : formatMeetingTime(meeting)} · {meeting.name}
+        </Typography>
+        {meeting.description && (
+          <Typography component="div" sx={{ fontSize: 'inherit' }}>{meeting.description}</Typography>
+        )}
+        {meeting.address && (
+          <Typography component="div" sx={{ fontSize: 'inherit' }}>{cleanAddressDisplay(meeting.address)}</Typography>
+        )}
+        <Typography component="div" sx={{ fontSize: 'inherit', fontStyle: 'italic' }}>{getTagsText(meeting, locale)}</Typography>
+        {access && (
+          <>
+            {access.joinUrl && (
+              <Typography component="div" sx={{ fontSize: 'inherit', overflowWrap: 'anywhere' }}>
+                {t('print.join', { url: access.joinUrl })}
+              </Typography>
+            )}
+            {(access.meetingId || access.passcode) && (
+              <Typography component="div" sx={{ fontSize: 'inherit' }}>
+                {access.meetingId && t('access.meetingId', { platform, id: formatMeetingId(access.meetingId) })}
+                {access.meetingId && access.passcode && ' · '}
+                {access.passcode && t('access.passcode', { passcode: access.passcode })}
+              </Typography>
+            )}
+            {access.dialIn.map(dialIn => (
+              <Typography key={dialIn.number} component="div" sx={{ fontSize: 'inherit' }}>
+                {dialIn.label
+                  ? t('access.dialInFrom', { label: dialIn.label, number: dialIn.number })
+                  : t('access.dialIn', { number: dialIn.number })}
+              </Typography>
+            ))}
+            {access.notes && (
+              <Typography component="div" sx={{ fontSize: 'inherit', whiteSpace: 'pre-line' }}>{access.notes}</Typography>
+            )}
+          </>
+        )}
+      </Box>
+      {showQrCode && (
+        <QrCode
+          value={`${window.location.origin}${getMeetingPath(meeting.id)}`}
+          size={64}
+          label={t('print.qrMeetingAlt', { name: meeting.name })}
+        />
+      )}
+    </Box>
+  );
+}
+
+export default function PrintSchedule({ meetings, title, siteUrl, isLoading, now, onBack }: PrintScheduleProps) {
+  const { locale, t, formatDay } = useI18n();
+  const [qrCodeMode, setQrCodeMode] = useState<QrCodeMode>('site');
+  const days = groupMeetingsByDay(meetings, now);
+
+  return (
+    <Box>
+      <GlobalStyles styles={{ '@page': { margin: '0.5in' } }} />
+
+      {/* Controls are left off the paper */}
+      <Box sx={{
+        display: 'flex',
+        gap: 2,
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        mb: 3,
+        displayPrint: 'none'
+      }}>
+        <Button startIcon={<ArrowBack />} onClick={onBack} sx={{ color: BRAND_COLOR, textTransform: 'none' }}>
+          {t('detail.back')}
+        </Button>
+        <FormControl sx={{ minWidth: 220 }}>
+          <InputLabel sx={{ color: BRAND_COLOR }}>{t('print.qrCodes')}</InputLabel>
+          <Select
+            value={qrCodeMode}
+            label={t('print.qrCodes')}
+            onChange={(e: any) => setQrCodeMode(e.target.value)}
+            size="small"
+          >
+            <MenuItem value="none">{t('print.qrNone')}</MenuItem>
+            <MenuItem value="site">{t('print.qrSite')}</MenuItem>
+            <MenuItem value="meetings">{t('print.qrMeetings')}</MenuItem>
+          </Select>
+        </FormControl>
+        <Button
+          variant="contained"
+          startIcon={<Print />}
+          onClick={() => window.print()}
+          disabled={isLoading || meetings.length === 0}
+          sx={{ backgroundColor: BRAND_COLOR, textTransform: 'none' }}
+        >
+          {t('print.print')}
+        </Button>
+      </Box>
+
+      {isLoading && (
+        <Alert severity="info" sx={{ displayPrint: 'none' }}>{t('print.loading')}</Alert>
+      )}
+
+      {!isLoading && meetings.length === 0 && (
+        <Alert severity="warning" sx={{ displayPrint: 'none' }}>
+          {t('print.empty')}
+        </Alert>
+      )}
+
+      {!isLoading && meetings.length > 0 && (
+        <>
+          <Box sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'flex-start',
+            gap: 2,
+            mb: 2,
+            pb: 1,
+            borderBottom: `2px solid ${BRAND_COLOR}`
+          }}>
+            <Box>
+              <Typography variant="h4" component="h1" sx={{ color: BRAND_COLOR, fontSize: { xs: '1.5rem', md: '2rem' } }}>
+                {title}
+              </Typography>
+              <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+                {t('print.summary', { count: meetings.length, date: new Date().toLocaleDateString(locale, { dateStyle: 'medium' }) })}
+                {' '}{t('print.checkOnline', { site: window.location.host })}
+              </Typography>
+            </Box>
+            {qrCodeMode === 'site' && <QrCode value={siteUrl} size={88} label={t('print.qrSiteAlt')} />}
+          </Box>
+
+          {days.map(group => (
+            <Box key={group.day || 'other'} sx={{ mb: 2 }}>
+              <Typography
+                variant="h6"
+                component="h2"
+                sx={{
+                  color: BRAND_COLOR,
+                  borderBottom: '1px solid #ccc',
+                  mb: 1,
+                  breakAfter: 'avoid',
+                  pageBreakAfter: 'avoid'
+                }}
+              >
+                {group.day ? formatDay(group.day) : t('print.otherTimes')}
+              </Typography>
+              <Box sx={{
+                columnCount: { xs: 1, sm: 2 },
+                columnGap: 3,
+                '@media print': { columnCount: 2 }
+              }}>
+                {group.items.map(item => (
+                  <PrintEntry key={item.meeting.id} item={item} showQrCode={qrCodeMode === 'meetings'} />
+                ))}
+              </Box>
+            </Box>
+          ))}
+        </>
+      )}
+    </Box>
+  );
+}
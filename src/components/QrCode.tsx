@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { Box } from '@mui/material';
+import QRCode from 'qrcode';
+
+interface QrCodeProps {
+  value: string; // usually a URL
+  size?: number; // pixels on screen
+  label?: string;
+}
+
+export default function QrCode({ value, size = 96, label }: QrCodeProps) {
+  const [src, setSrc] = useState<string>('');
+
+  useEffect(() => {
+    let cancelled = false;
+    // Rendered at twice the size so it stays sharp when printed
+    QRCode.toDataURL(value, { margin: 1, width: size * 2, errorCorrectionLevel: 'M' })
+      .then(url => !cancelled && setSrc(url))
+      .catch(() => !cancelled && setSrc(''));
+    return () => {
+      cancelled = true;
+    };
+  }, [value, size]);
+
+  // Keep the space while the image is generated so the layout doesn't jump
+  if (!src) return <Box sx={{ width: size, height: size, flexShrink: 0 }} />;
+
+  return (
+    <img
+      src={src}
+      width={size}
+      height={size}
+      alt={label || `QR code linking to ${value}`}
+      style={{ flexShrink: 0 }}
+    />
+  );
+}
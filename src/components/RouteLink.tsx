@@ -0,0 +1,23 @@
+import { ReactNode, MouseEvent, CSSProperties } from 'react';
+import { navigate } from '../utils/routes';
+
+interface RouteLinkProps {
+  to: string;
+  children: ReactNode;
+  style?: CSSProperties;
+}
+
+// In-app link: a real href for new tabs and sharing, client-side navigation on plain clicks
+export default function RouteLink({ to, children, style }: RouteLinkProps) {
+  const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return (
+    <a href={to} onClick={handleClick} style={{ color: '#1976d2', textDecoration: 'none', fontWeight: 500, ...style }}>
+      {children}
+    </a>
+  );
+}
@@ -0,0 +1,31 @@
+import { IconButton, Tooltip } from '@mui/material';
+import { Star, StarBorder } from '@mui/icons-material';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface SaveMeetingButtonProps {
+  saved: boolean;
+  onToggle: () => void;
+}
+
+export default function SaveMeetingButton({ saved, onToggle }: SaveMeetingButtonProps) {
+  const { t } = useI18n();
+  const label = saved ? t('saved.remove') : t('saved.save');
+
+  return (
+    <Tooltip title={label}>
+      <IconButton
+        size="small"
+        aria-label={label}
+        aria-pressed={saved}
+        onClick={(e) => {
+          // Don't also select the list item or map marker underneath
+          e.stopPropagation();
+          onToggle();
+        }}
+        sx={{ color: saved ? '#f5a623' : 'text.secondary', p: 0.5 }}
+      >
+        {saved ? <Star fontSize="small" /> : <StarBorder fontSize="small" />}
+      </IconButton>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,50 @@
+import { Alert, AlertTitle, Box, Button, Typography } from '@mui/material';
+import { SavedMeetingChange } from '../utils/savedMeetings';
+import { getMeetingPath } from '../utils/routes';
+import RouteLink from './RouteLink';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface SavedMeetingsAlertProps {
+  changes: SavedMeetingChange[];
+  onDismiss: () => void;
+}
+
+// Tells regular attendees when one of their saved meetings changed or was
+// taken off the schedule since they last looked
+export default function SavedMeetingsAlert({ changes, onDismiss }: SavedMeetingsAlertProps) {
+  const { t, formatDay, formatMeetingTime } = useI18n();
+
+  if (changes.length === 0) return null;
+
+  return (
+    <Alert
+      severity="warning"
+      sx={{ mb: 2 }}
+      action={
+        <Button color="inherit" size="small" onClick={onDismiss} sx={{ textTransform: 'none' }}>
+          {t('saved.dismiss')}
+        </Button>
+      }
+    >
+      <AlertTitle>{t('saved.changedTitle')}</AlertTitle>
+      <Box component="ul" sx={{ m: 0, pl: 2 }}>
+        {changes.map(({ saved, meeting, changes: changed }) => (
+          <Typography key={saved.id} component="li" variant="body2">
+            {meeting ? (
+              <>
+                <RouteLink to={getMeetingPath(meeting.id)}>{meeting.name}</RouteLink>
+                {`: ${t('saved.changed', {
+                  changes: changed.map(field => t(`saved.field.${field}`)).join(', '),
+                  day: formatDay(meeting.day),
+                  time: formatMeetingTime(meeting)
+                })}`}
+              </>
+            ) : (
+              t('saved.removed', { name: saved.name })
+            )}
+          </Typography>
+        ))}
+      </Box>
+    </Alert>
+  );
+}
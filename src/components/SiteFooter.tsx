@@ -0,0 +1,33 @@
+import { Box, Typography, Link } from '@mui/material';
+import { siteConfig } from '../data/siteConfig';
+import { getSiteText } from '../utils/siteConfig';
+import { useI18n } from '../i18n/I18nProvider';
+
+// Who to ask about the schedule, from the site config; nothing when it has none
+export default function SiteFooter() {
+  const { locale } = useI18n();
+  const help = siteConfig.help;
+  if (!help) return null;
+
+  const links = [
+    help.email && { href: `mailto:${help.email}`, label: help.email },
+    help.phone && { href: `tel:${help.phone.replace(/[^\d+]/g, '')}`, label: help.phone },
+    help.url && { href: help.url, label: help.url.replace(/^https?:\/\//, '').replace(/\/$/, '') }
+  ].filter((link): link is { href: string, label: string } => !!link);
+
+  return (
+    <Box component="footer" sx={{ mt: 4, pt: 2, borderTop: '1px solid #e0e0e0', textAlign: 'center', displayPrint: 'none' }}>
+      <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+        {getSiteText(help.text, locale)}
+        {links.map(link => (
+          <span key={link.href}>
+            {' · '}
+            <Link href={link.href} target={link.href.startsWith('http') ? '_blank' : undefined} rel="noopener noreferrer">
+              {link.label}
+            </Link>
+          </span>
+        ))}
+      </Typography>
+    </Box>
+  );
+}
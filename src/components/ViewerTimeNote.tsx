@@ -0,0 +1,31 @@
+import { Typography } from '@mui/material';
+import { Meeting } from '../types/Meeting';
+import { getViewerSchedule, getViewerTimeZone, formatZoneName, isJoinedRemotely, isInOtherTimeZone } from '../utils/timeZone';
+import { formatTimeRange } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ViewerTimeNoteProps {
+  meeting: Meeting;
+}
+
+// For virtual and hybrid meetings listed in another zone, the time on the viewer's clock:
+// "Your time: Monday 6:00 PM - 7:00 PM PDT (listed in EDT)"
+export default function ViewerTimeNote({ meeting }: ViewerTimeNoteProps) {
+  const { locale, t, formatDay } = useI18n();
+  const now = new Date();
+  if (!isJoinedRemotely(meeting) || !isInOtherTimeZone(meeting, now)) return null;
+
+  const schedule = getViewerSchedule(meeting, now);
+  if (!schedule) return null;
+
+  return (
+    <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+      {t('meeting.yourTime', {
+        day: formatDay(schedule.day),
+        time: formatTimeRange(schedule.startMinutes, schedule.endMinutes, locale),
+        zone: formatZoneName(getViewerTimeZone(), now),
+        listedZone: formatZoneName(meeting.timeZone, now)
+      })}
+    </Typography>
+  );
+}
@@ -0,0 +1,59 @@
+import { Box, Typography } from '@mui/material';
+import { VirtualAccess } from '../types/Meeting';
+import { getPlatformLabel, formatMeetingId, createDialInLink } from '../utils/virtualAccess';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface VirtualAccessDetailsProps {
+  access: VirtualAccess;
+}
+
+const linkStyle = {
+  color: '#1976d2', 
+  textDecoration: 'none',
+  fontWeight: 'medium'
+};
+
+export default function VirtualAccessDetails({ access }: VirtualAccessDetailsProps) {
+  const { t } = useI18n();
+  const platform = getPlatformLabel(access.platform);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.25 }}>
+      {access.joinUrl && (
+        <Typography variant="body2" sx={{ color: 'text.primary' }}>
+          <a 
+            href={access.joinUrl} 
+            target="_blank" 
+            rel="noopener noreferrer"
+            style={linkStyle}
+            onMouseEnter={(e) => e.currentTarget.style.textDecoration = 'underline'}
+            onMouseLeave={(e) => e.currentTarget.style.textDecoration = 'none'}
+          >
+            🎥 {access.platform === 'other' ? t('access.joinOnline') : t('access.join', { platform })}
+          </a>
+        </Typography>
+      )}
+      {(access.meetingId || access.passcode) && (
+        <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+          {access.meetingId && t('access.meetingId', { platform, id: formatMeetingId(access.meetingId) })}
+          {access.meetingId && access.passcode && ' · '}
+          {access.passcode && t('access.passcode', { passcode: access.passcode })}
+        </Typography>
+      )}
+      {access.dialIn.map((dialIn) => (
+        <Typography key={dialIn.number} variant="body2" sx={{ color: 'text.primary' }}>
+          <a href={createDialInLink(dialIn, access)} style={linkStyle}>
+            📞 {dialIn.label
+              ? t('access.dialInFrom', { label: dialIn.label, number: dialIn.number })
+              : t('access.dialIn', { number: dialIn.number })}
+          </a>
+        </Typography>
+      ))}
+      {access.notes && (
+        <Typography variant="body2" sx={{ color: 'text.secondary', whiteSpace: 'pre-line' }}>
+          {access.notes}
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,250 @@
+import { Box, Typography, Paper, useMediaQuery, useTheme } from '@mui/material';
+import { Meeting } from '../types/Meeting';
+import { DAYS, MINUTES_PER_DAY } from '../utils/time';
+import { Schedule, getFilterSchedule } from '../utils/timeZone';
+import { cleanAddressDisplay } from '../utils/address';
+import { getMeetingPath, navigate } from '../utils/routes';
+import { getTypeColor } from './MeetingList';
+import RouteLink from './RouteLink';
+import { formatHour, formatTimeRange } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { BRAND_COLOR } from '../utils/siteConfig';
+
+interface WeekCalendarProps {
+  meetings: Meeting[];
+  now: Date; // for placing virtual meetings on the viewer's clock
+}
+
+interface CalendarBlock {
+  meeting: Meeting;
+  start: number; // minutes since midnight
+  end: number;
+  lane: number; // column within a run of overlapping meetings
+  lanes: number;
+}
+
+const HOUR_HEIGHT = 48; // pixels
+const MIN_BLOCK_HEIGHT = 22;
+// Meetings without an end time are drawn as an hour long
+const DEFAULT_DURATION = 60;
+
+const meetingTypes: Meeting['type'][] = ['in-Person', 'virtual', 'hybrid'];
+
+// Function to place one day's meetings side by side where their times overlap
+function layoutDay(entries: Array<{ meeting: Meeting, schedule: Schedule }>): CalendarBlock[] {
+  const blocks = entries
+    .map(({ meeting, schedule }) => {
+      const start = schedule.startMinutes;
+      // Meetings running past midnight are cut off at the end of the day
+      const end = schedule.endMinutes !== null && schedule.endMinutes > start
+        ? schedule.endMinutes
+        : Math.min(start + DEFAULT_DURATION, MINUTES_PER_DAY);
+      return { meeting, start, end, lane: 0, lanes: 1 };
+    })
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  // Walk runs of overlapping meetings, giving each the first free lane
+  let run: CalendarBlock[] = [];
+  let runEnd = -1;
+  const closeRun = () => {
+    const lanes = Math.max(...run.map(block => block.lane)) + 1;
+    run.forEach(block => block.lanes = lanes);
+  };
+
+  blocks.forEach(block => {
+    if (run.length > 0 && block.start >= runEnd) {
+      closeRun();
+      run = [];
+    }
+    const usedLanes = run.filter(other => other.end > block.start).map(other => other.lane);
+    let lane = 0;
+    while (usedLanes.includes(lane)) lane++;
+    block.lane = lane;
+    run.push(block);
+    runEnd = Math.max(runEnd, block.end);
+  });
+  if (run.length > 0) closeRun();
+
+  return blocks;
+}
+
+export default function WeekCalendar({ meetings, now }: WeekCalendarProps) {
+  const { locale, t, formatDay } = useI18n();
+  const theme = useTheme();
+  const isNarrow = useMediaQuery(theme.breakpoints.down('sm'));
+
+  const scheduled = meetings
+    .map(meeting => ({ meeting, schedule: getFilterSchedule(meeting, now) }))
+    .filter((entry): entry is { meeting: Meeting, schedule: Schedule } => entry.schedule !== null);
+  const unscheduled = meetings.filter(meeting => !scheduled.some(entry => entry.meeting === meeting));
+  const days = DAYS.map((day, dayIndex) => ({
+    day,
+    blocks: layoutDay(scheduled.filter(entry => entry.schedule.dayIndex === dayIndex))
+  }));
+
+  // Only the hours that have meetings, so the grid isn't mostly empty
+  const allBlocks = days.flatMap(day => day.blocks);
+  const firstHour = allBlocks.length > 0 ? Math.floor(Math.min(...allBlocks.map(block => block.start)) / 60) : 7;
+  const lastHour = allBlocks.length > 0 ? Math.ceil(Math.max(...allBlocks.map(block => block.end)) / 60) : 22;
+  const hours = Array.from({ length: Math.max(lastHour - firstHour, 1) }, (_, index) => firstHour + index);
+  const gridHeight = hours.length * HOUR_HEIGHT;
+
+  const openMeeting = (meeting: Meeting) => navigate(getMeetingPath(meeting.id));
+  const formatBlockTime = (block: CalendarBlock) => formatTimeRange(block.start, block.end, locale);
+
+  if (meetings.length === 0) {
+    return (
+      <Typography variant="body1" align="center">
+        {t('results.none')}
+      </Typography>
+    );
+  }
+
+  const legend = (
+    <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+      {meetingTypes.map(type => (
+        <Box key={type} sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+          <Box sx={{ width: 12, height: 12, borderRadius: '2px', backgroundColor: getTypeColor(type) }} />
+          <Typography variant="body2">{t(`type.${type}`)}</Typography>
+        </Box>
+      ))}
+    </Box>
+  );
+
+  const unscheduledNote = unscheduled.length > 0 && (
+    <Box sx={{ mt: 2 }}>
+      <Typography variant="subtitle2" sx={{ color: 'text.secondary' }}>
+        {t('week.unscheduled')}
+      </Typography>
+      {unscheduled.map(meeting => (
+        <Typography key={meeting.id} variant="body2">
+          <RouteLink to={getMeetingPath(meeting.id)}>{meeting.name}</RouteLink>
+          {meeting.timeDisplay && ` · ${meeting.timeDisplay}`}
+        </Typography>
+      ))}
+    </Box>
+  );
+
+  // Phones get a stacked agenda; seven columns don't fit
+  if (isNarrow) {
+    return (
+      <Box>
+        {legend}
+        {days.filter(day => day.blocks.length > 0).map(day => (
+          <Box key={day.day} sx={{ mb: 2 }}>
+            <Typography variant="subtitle1" sx={{ fontWeight: 'bold', color: BRAND_COLOR, mb: 0.5 }}>
+              {formatDay(day.day)}
+            </Typography>
+            {day.blocks.map(block => (
+              <Paper
+                key={block.meeting.id}
+                variant="outlined"
+                onClick={() => openMeeting(block.meeting)}
+                sx={{
+                  p: 1,
+                  mb: 1,
+                  cursor: 'pointer',
+                  borderLeft: `4px solid ${getTypeColor(block.meeting.type)}`
+                }}
+              >
+                <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+                  {formatBlockTime(block)}
+                </Typography>
+                <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
+                  {block.meeting.name}
+                </Typography>
+                {block.meeting.address && (
+                  <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+                    {cleanAddressDisplay(block.meeting.address)}
+                  </Typography>
+                )}
+              </Paper>
+            ))}
+          </Box>
+        ))}
+        {unscheduledNote}
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {legend}
+      <Box sx={{ display: 'flex', overflowX: 'auto' }}>
+        {/* Hour labels */}
+        <Box sx={{ flex: '0 0 56px', pt: '28px' }}>
+          {hours.map(hour => (
+            <Typography
+              key={hour}
+              variant="caption"
+              component="div"
+              sx={{ height: HOUR_HEIGHT, color: 'text.secondary', textAlign: 'right', pr: 1, mt: '-0.6em' }}
+            >
+              {formatHour(hour * 60, locale)}
+            </Typography>
+          ))}
+        </Box>
+
+        {days.map(day => (
+          <Box key={day.day} sx={{ flex: '1 0 100px', minWidth: 100 }}>
+            <Typography
+              variant="subtitle2"
+              align="center"
+              sx={{ height: 28, fontWeight: 'bold', color: BRAND_COLOR }}
+            >
+              {formatDay(day.day)}
+            </Typography>
+            <Box sx={{
+              position: 'relative',
+              height: gridHeight,
+              borderLeft: '1px solid #e0e0e0',
+              // Hour lines
+              backgroundImage: `repeating-linear-gradient(to bottom, #e0e0e0 0, #e0e0e0 1px, transparent 1px, transparent ${HOUR_HEIGHT}px)`
+            }}>
+              {day.blocks.map(block => {
+                const top = (block.start - firstHour * 60) / 60 * HOUR_HEIGHT;
+                const height = Math.max((block.end - block.start) / 60 * HOUR_HEIGHT, MIN_BLOCK_HEIGHT);
+                return (
+                  <Box
+                    key={block.meeting.id}
+                    role="button"
+                    tabIndex={0}
+                    title={`${block.meeting.name}\n${formatBlockTime(block)}${block.meeting.address ? `\n${cleanAddressDisplay(block.meeting.address)}` : ''}`}
+                    onClick={() => openMeeting(block.meeting)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' || e.key === ' ') {
+                        e.preventDefault();
+                        openMeeting(block.meeting);
+                      }
+                    }}
+                    sx={{
+                      position: 'absolute',
+                      top,
+                      height,
+                      left: `calc(${block.lane / block.lanes * 100}% + 2px)`,
+                      width: `calc(${100 / block.lanes}% - 4px)`,
+                      backgroundColor: getTypeColor(block.meeting.type),
+                      color: '#ffffff',
+                      borderRadius: '4px',
+                      px: 0.5,
+                      overflow: 'hidden',
+                      cursor: 'pointer',
+                      fontSize: '0.7rem',
+                      lineHeight: 1.2,
+                      boxShadow: '0 1px 2px rgba(0,0,0,0.3)',
+                      '&:hover, &:focus-visible': { zIndex: 1, outline: `2px solid ${BRAND_COLOR}` }
+                    }}
+                  >
+                    <Box component="span" sx={{ fontWeight: 'bold' }}>{formatHour(block.start, locale)}</Box>{' '}
+                    {block.meeting.name}
+                  </Box>
+                );
+              })}
+            </Box>
+          </Box>
+        ))}
+      </Box>
+      {unscheduledNote}
+    </Box>
+  );
+}
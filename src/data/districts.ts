@@ -0,0 +1,32 @@
+import { siteConfig } from './siteConfig';
+
+// 'csv' is our own column layout; 'meeting-guide' is a Meeting Guide / TSML JSON feed
+export type DataFormat = 'csv' | 'meeting-guide';
+
+export interface District {
+  id: string;
+  name: string;
+  state: string;
+  dataPath: string; // file in /public, or the URL of another site's feed
+  dataFormat: DataFormat;
+  timeZone: string; // IANA zone the meeting times are written in; a CSV timeZone column overrides it per meeting
+  center: [number, number]; // [latitude, longitude]
+  zoom: number;
+}
+
+// Special selector value that merges every registered district into one view
+export const ALL_DISTRICTS = 'all';
+
+// Districts whose meetings this deployment shows, see siteConfig
+export const districts: District[] = siteConfig.districts;
+
+export function getDistrict(id: string): District | undefined {
+  return districts.find(district => district.id === id);
+}
+
+// Districts covered by a selector value ('all' or a single district id)
+export function getDistrictsForSelection(selection: string): District[] {
+  if (selection === ALL_DISTRICTS) return districts;
+  const district = getDistrict(selection);
+  return district ? [district] : [];
+}
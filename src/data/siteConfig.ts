@@ -0,0 +1,68 @@
+import type { SiteConfig } from '../types/SiteConfig';
+
+// Everything that differs between deployments. Edit this file to run the
+// finder for another district or area; it is checked when the site is built
+// (see validateSiteConfig).
+//
+// A neighbouring district's TSML site can be added with its feed, e.g.
+//   dataPath: 'https://example.org/wp-admin/admin-ajax.php?action=meetings',
+//   dataFormat: 'meeting-guide'
+export const siteConfig: SiteConfig = {
+  name: 'Support Group Meeting Finder',
+  shortName: 'Meetings',
+  description: 'Find Al-Anon meetings by day, time and location.',
+  faviconPath: '/favicon.svg',
+  title: {
+    en: 'Find a Meeting',
+    es: 'Encuentre una reunión',
+    'fr-CA': 'Trouver une réunion'
+  },
+  subtitle: {
+    en: 'Select filters to find your perfect meeting.',
+    es: 'Use los filtros para encontrar la reunión adecuada para usted.',
+    'fr-CA': 'Utilisez les filtres pour trouver la réunion qui vous convient.'
+  },
+  theme: {
+    brandColor: '#0d2357',
+    primaryColor: '#1976d2',
+    secondaryColor: '#dc004e'
+  },
+  // Shown for "All districts" until the meetings are placed
+  map: {
+    center: [43.37, -70.5], // between Portland, ME and Portsmouth, NH
+    zoom: 9,
+    tiles: {
+      urlTemplate: 'https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png',
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
+    }
+  },
+  districts: [
+    {
+      id: 'me-s2',
+      name: 'Maine District S2',
+      state: 'ME',
+      dataPath: '/ME_District_S2_AlAnon_Meetings.csv',
+      dataFormat: 'csv',
+      timeZone: 'America/New_York',
+      center: [43.6591, -70.2568], // Portland, ME
+      zoom: 10
+    },
+    {
+      id: 'nh-12',
+      name: 'New Hampshire District 12',
+      state: 'NH',
+      dataPath: '/NH_District_12_AlAnon_Meetings.csv',
+      dataFormat: 'csv',
+      timeZone: 'America/New_York',
+      center: [43.0718, -70.7626], // Portsmouth, NH
+      zoom: 11
+    }
+  ],
+  defaultDistrict: 'me-s2'
+  // Contact shown at the bottom of each page, e.g.
+  // help: {
+  //   text: { en: 'Questions about a meeting?', es: '¿Preguntas sobre una reunión?' },
+  //   email: 'meetings@example.org',
+  //   phone: '(207) 555-0100'
+  // }
+};
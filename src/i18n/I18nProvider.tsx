@@ -0,0 +1,73 @@
+import { ReactNode, createContext, useContext, useEffect, useState } from 'react';
+import { Meeting } from '../types/Meeting';
+import {
+  Locale,
+  MessageKey,
+  MessageParams,
+  DEFAULT_LOCALE,
+  isLocale,
+  matchLocale,
+  translate,
+  formatDayName,
+  formatTime,
+  formatMeetingTime
+} from '.';
+
+const STORAGE_KEY = 'meeting-finder:language';
+
+interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatDay: (day: string) => string;
+  formatTime: (minutes: number) => string;
+  formatMeetingTime: (meeting: Meeting) => string;
+}
+
+// The language chosen here before, else the browser's first supported language
+function getInitialLocale(): Locale {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage blocked; fall through to the browser's languages
+  }
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  return languages.map(matchLocale).find((locale): locale is Locale => locale !== null) || DEFAULT_LOCALE;
+}
+
+function createI18n(locale: Locale, setLocale: (locale: Locale) => void): I18n {
+  return {
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    formatDay: (day) => formatDayName(day, locale),
+    formatTime: (minutes) => formatTime(minutes, locale),
+    formatMeetingTime: (meeting) => formatMeetingTime(meeting, locale)
+  };
+}
+
+const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE, () => {}));
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
+
+export default function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocale] = useState<Locale>(getInitialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    try {
+      localStorage.setItem(STORAGE_KEY, locale);
+    } catch {
+      // The choice just won't be remembered next visit
+    }
+  }, [locale]);
+
+  return (
+    <I18nContext.Provider value={createI18n(locale, setLocale)}>
+      {children}
+    </I18nContext.Provider>
+  );
+}
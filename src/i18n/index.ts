@@ -0,0 +1,111 @@
+import { Meeting } from '../types/Meeting';
+import { getDayIndex } from '../utils/time';
+import { en } from './messages/en';
+import { es } from './messages/es';
+import { frCA } from './messages/frCA';
+
+export type Locale = 'en' | 'es' | 'fr-CA';
+export type MessageKey = keyof typeof en;
+export type Message = string | { one: string, other: string };
+export type Messages = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Offered in the language switcher, each named in its own language
+export const LOCALES: Array<{ code: Locale, label: string }> = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr-CA', label: 'Français' }
+];
+
+const catalogs: Record<Locale, Messages> = { en, es, 'fr-CA': frCA };
+
+// Monday 1 January 2024, the week day names are read from
+const REFERENCE_MONDAY = Date.UTC(2024, 0, 1);
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export function isLocale(value: string | null | undefined): value is Locale {
+  return LOCALES.some(locale => locale.code === value);
+}
+
+// The supported locale closest to a browser language, e.g. "es-MX" -> "es"
+export function matchLocale(language: string): Locale | null {
+  const base = language.toLowerCase().split('-')[0];
+  if (base === 'es') return 'es';
+  if (base === 'fr') return 'fr-CA';
+  if (base === 'en') return 'en';
+  return null;
+}
+
+// UI text for `key` with {placeholders} filled from `params`. A missing
+// translation falls back to English rather than showing the key.
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message = catalogs[locale][key] ?? en[key];
+  const text = typeof message === 'string'
+    ? message
+    : new Intl.PluralRules(locale).select(Number(params.count)) === 'one' ? message.one : message.other;
+  return text.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+}
+
+// "Monday", "Lunes", "Lundi" for a CSV day name; other values are shown as written
+export function formatDayName(day: string, locale: Locale): string {
+  const index = getDayIndex(day);
+  if (index === -1) return day ? capitalize(day) : translate(locale, 'meeting.unknownDay');
+  const weekday = new Intl.DateTimeFormat(locale, { weekday: 'long', timeZone: 'UTC' })
+    .format(new Date(REFERENCE_MONDAY + index * 24 * 60 * 60 * 1000));
+  return capitalize(weekday);
+}
+
+// Minutes since midnight as a clock time: "7:00 PM", "19:00", "19 h 00"
+export function formatTime(minutes: number, locale: Locale): string {
+  return new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' })
+    .format(new Date(REFERENCE_MONDAY + minutes * 60 * 1000));
+}
+
+// Shorter for calendar labels: "7 PM" on the hour on a 12-hour clock. A bare
+// "19" would be unclear, so 24-hour clocks keep their minutes.
+export function formatHour(minutes: number, locale: Locale): string {
+  const date = new Date(REFERENCE_MONDAY + minutes * 60 * 1000);
+  const parts = new Intl.DateTimeFormat(locale, { hour: 'numeric', timeZone: 'UTC' }).formatToParts(date);
+  const isTwelveHour = parts.some(part => part.type === 'dayPeriod');
+  if (minutes % 60 !== 0 || !isTwelveHour) return formatTime(minutes, locale);
+  return parts.map(part => part.value).join('');
+}
+
+export function formatTimeRange(start: number, end: number | null, locale: Locale): string {
+  return end === null ? formatTime(start, locale) : `${formatTime(start, locale)} - ${formatTime(end, locale)}`;
+}
+
+// A meeting's listed time in the locale's style, or the CSV text if it couldn't be read
+export function formatMeetingTime(meeting: Meeting, locale: Locale): string {
+  return meeting.startMinutes === null
+    ? meeting.timeDisplay
+    : formatTimeRange(meeting.startMinutes, meeting.endMinutes, locale);
+}
+
+// "45 min", "1 hr 5 min"
+export function formatDuration(minutes: number, locale: Locale): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return translate(locale, 'duration.minutes', { minutes: mins });
+  return mins === 0
+    ? translate(locale, 'duration.hours', { hours })
+    : translate(locale, 'duration.hoursMinutes', { hours, minutes: mins });
+}
+
+// A language code from the CSV's language column in the reader's language: "es" -> "Spanish"
+export function formatLanguageName(code: string, locale: Locale): string {
+  try {
+    return capitalize(new Intl.DisplayNames([locale], { type: 'language' }).of(code) || code);
+  } catch {
+    return code;
+  }
+}
+
+// Known format tags are translated; groups' own formats are shown as written
+export function formatFormatTag(tag: string, locale: Locale): string {
+  const key = `format.${tag.toLowerCase()}`;
+  return key in en ? translate(locale, key as MessageKey) : tag;
+}
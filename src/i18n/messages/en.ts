@@ -0,0 +1,237 @@
+// English UI text; the other languages must translate every key.
+// {name} placeholders are filled in by translate; { one, other } pairs are
+// chosen by the count passed in.
+export const en = {
+  'app.language': 'Language',
+  'app.loading': 'Loading meetings... This should only take a few seconds.',
+  'app.loadError': 'Failed to load meetings data',
+  'app.partialLoadError': 'Meetings for {districts} could not be loaded. Showing the rest.',
+  'app.placing': {
+    one: 'Placing {count} more location on the map...',
+    other: 'Placing {count} more locations on the map...'
+  },
+  'app.offline': 'You appear to be offline. Showing meeting data as of {date}.',
+
+  'view.label': 'How to show meetings',
+  'view.map': 'Map and list',
+  'view.week': 'Week',
+
+  'results.found': { one: 'Found {count} meeting', other: 'Found {count} meetings' },
+  'results.foundInArea': { one: 'Found {count} meeting in this map area', other: 'Found {count} meetings in this map area' },
+  'results.none': 'No meetings found matching your criteria.',
+  'results.downloadCalendar': 'Download calendar',
+  'results.print': 'Print schedule',
+  'results.mapAreaOnly': 'Only show meetings in the visible map area',
+
+  'map.cluster': '{count} meetings at {locations} locations. Click to zoom in.',
+  'popup.position': '{index} of {count} meetings',
+  'popup.moreHere': 'Use arrows above to view other meetings at this location',
+
+  'meeting.when': '{day} at {time}',
+  'meeting.unknownDay': 'Unknown day',
+  'meeting.moreDetails': 'More details',
+  'meeting.addToCalendar': 'Add to calendar',
+  'meeting.directions': 'Directions',
+  'meeting.contact': 'Contact: {contact}',
+  'meeting.away': '{distance} away',
+  'meeting.yourTime': 'Your time: {day} {time} {zone} (listed in {listedZone})',
+
+  'type.in-Person': 'In-person',
+  'type.virtual': 'Virtual',
+  'type.hybrid': 'Hybrid',
+
+  'timeOfDay.morning': 'Morning',
+  'timeOfDay.afternoon': 'Afternoon',
+  'timeOfDay.evening': 'Evening',
+
+  // The formats the CSV schema knows; others are shown as written
+  'format.regular': 'Regular',
+  'format.beginner': 'Beginner',
+  'format.speaker': 'Speaker',
+  'format.step study': 'Step Study',
+  'format.literature': 'Literature',
+  'format.discussion': 'Discussion',
+
+  'amenity.wheelchair': 'Wheelchair accessible',
+  'amenity.parking': 'Parking',
+  'amenity.childcare': 'Childcare',
+  'amenity.fragranceFree': 'Fragrance-free',
+  'amenity.yes': '{amenity}: yes',
+  'amenity.no': '{amenity}: no',
+  'amenity.unknown': '{amenity}: unknown',
+
+  'filters.searchPlaceholder': 'Search name, place, town, notes...',
+  'filters.searchLabel': 'Search meetings',
+  'filters.day': 'Day',
+  'filters.allDays': 'All Days',
+  'filters.format': 'Format',
+  'filters.allFormats': 'All Formats',
+  'filters.time': 'Time of Day',
+  'filters.allTimes': 'All Times',
+  'filters.type': 'Meeting Type',
+  'filters.allTypes': 'All Types',
+  'filters.amenities': 'Accessibility',
+  'filters.anyVenue': 'Any Venue',
+  'filters.language': 'Language',
+  'filters.allLanguages': 'All Languages',
+  'filters.startsBetween': 'Starts between {from} and {to}',
+  'filters.reset': 'Reset Filters',
+
+  'district.label': 'District',
+  'district.all': 'All Districts',
+
+  'now.label': 'Happening now',
+  'now.within': 'Starting within',
+  'now.minutes': '{count} minutes',
+  'now.hours': { one: '{count} hour', other: '{count} hours' },
+  'now.inProgress': 'In progress · ends in {duration}',
+  'now.startsIn': 'Starts in {duration}',
+  'duration.minutes': '{minutes} min',
+  'duration.hours': '{hours} hr',
+  'duration.hoursMinutes': '{hours} hr {minutes} min',
+
+  'near.useLocation': 'Use my location',
+  'near.placePlaceholder': 'or a town or ZIP',
+  'near.placeLabel': 'Town or ZIP code',
+  'near.find': 'Find town or ZIP',
+  'near.within': 'Within',
+  'near.anyDistance': 'Any distance',
+  'near.miles': '{count} miles',
+  'near.chip': 'Near {place}',
+  'near.yourLocation': 'your location',
+  'near.noGeolocation': 'Your browser does not share its location. Try typing a town or ZIP code.',
+  'near.locationFailed': 'Could not get your location. Try typing a town or ZIP code.',
+  'near.notFound': 'Could not find "{place}".',
+
+  'saved.toggle': 'My meetings ({count})',
+  'saved.empty': "You haven't saved any meetings yet. Tap the star next to a meeting to add it to My meetings.",
+  'saved.save': 'Save to my meetings',
+  'saved.remove': 'Remove from my meetings',
+  'saved.changedTitle': 'Your saved meetings have changed',
+  'saved.changed': '{changes} changed. Now {day} at {time}.',
+  'saved.removed': '{name} is no longer on the schedule.',
+  'saved.dismiss': 'Got it',
+  'saved.field.day': 'day',
+  'saved.field.timeDisplay': 'time',
+  'saved.field.type': 'meeting type',
+  'saved.field.address': 'address',
+  'saved.field.description': 'location',
+  'saved.field.format': 'format',
+  'saved.field.access': 'online access details',
+
+  'detail.back': 'Back to all meetings',
+  'detail.loading': 'Loading meeting...',
+  'detail.notFound': 'Meeting not found',
+  'detail.notFoundBody': "This meeting isn't on the current schedule. It may have moved, changed its time or stopped meeting.",
+  'detail.nearby': 'Meetings nearby',
+
+  'access.join': 'Join {platform} Meeting',
+  'access.joinOnline': 'Join Online Meeting',
+  'access.meetingId': '{platform} ID: {id}',
+  'access.passcode': 'Passcode: {passcode}',
+  'access.dialIn': 'Dial in: {number}',
+  'access.dialInFrom': 'Dial in ({label}): {number}',
+
+  'week.unscheduled': 'Without a regular day or time:',
+
+  'print.qrCodes': 'QR codes',
+  'print.qrNone': 'No QR codes',
+  'print.qrSite': 'Link to this schedule online',
+  'print.qrMeetings': 'Link to each meeting',
+  'print.print': 'Print',
+  'print.loading': 'Loading meetings...',
+  'print.empty': 'No meetings match the current filters. Go back and change them to print a schedule.',
+  'print.title': '{district} Meetings',
+  'print.titleAll': 'Meeting Schedule',
+  'print.summary': { one: '{count} meeting as of {date}.', other: '{count} meetings as of {date}.' },
+  'print.checkOnline': 'Times change; check {site} for the latest schedule.',
+  'print.otherTimes': 'Other times',
+  'print.join': 'Join: {url}',
+  'print.qrSiteAlt': 'QR code for this schedule online',
+  'print.qrMeetingAlt': 'QR code for {name}',
+
+  'editor.back': 'Back to all meetings',
+  'editor.title': 'Edit meetings',
+  'editor.intro': 'Changes stay in this browser until you export the CSV. Replace public/{file} with the exported file and redeploy to publish them.',
+  'editor.district': 'District',
+  'editor.add': 'Add meeting',
+  'editor.edit': 'Edit meeting',
+  'editor.delete': 'Delete meeting',
+  'editor.export': 'Export CSV',
+  'editor.unsaved': 'Unsaved changes',
+  'editor.loading': 'Loading meetings...',
+  'editor.loadError': 'Failed to load {file}',
+  'editor.problems': {
+    one: '{count} problem needs fixing. Rows with errors may be skipped or shown wrongly in the finder.',
+    other: '{count} problems need fixing. Rows with errors may be skipped or shown wrongly in the finder.'
+  },
+  'editor.name': 'Name',
+  'editor.day': 'Day',
+  'editor.time': 'Time',
+  'editor.type': 'Type',
+  'editor.address': 'Address',
+  'editor.checks': 'Checks',
+  'editor.actions': 'Actions',
+  'editor.ok': 'OK',
+  'editor.issues': { one: '{count} issue', other: '{count} issues' },
+  'editor.confirmDiscard': "Discard the changes you haven't exported?",
+  'editor.confirmDelete': 'Delete "{name}"?',
+  'editor.thisMeeting': 'this meeting',
+  'editor.mapPreview': 'Map preview',
+  'editor.placed': '{placed} of {total} in-person and hybrid meetings placed. Numbers match the table rows.',
+  'editor.none': 'None',
+  'editor.unknown': 'Unknown',
+  'editor.cancel': 'Cancel',
+  'editor.save': 'Save',
+
+  'column.name': 'Name',
+  'column.description': 'Location name',
+  'column.day': 'Day',
+  'column.time': 'Time of day',
+  'column.timeDisplay': 'Time (e.g. 7:00 - 8:00 PM)',
+  'column.type': 'Type',
+  'column.address': 'Address',
+  'column.Contact': 'Contact',
+  'column.Zoomid': 'Zoom ID / access details',
+  'column.Notes': 'Notes',
+  'column.format': 'Format (comma-separated, e.g. Beginner, Step Study)',
+  'column.platform': 'Platform',
+  'column.meetingId': 'Meeting ID',
+  'column.passcode': 'Passcode',
+  'column.joinUrl': 'Join URL',
+  'column.dialIn': 'Dial-in numbers',
+  'column.timeZone': "Time zone (e.g. America/Chicago; blank for the district's)",
+  'column.language': 'Languages (comma-separated, e.g. English, Spanish)',
+
+  'issues.summary': 'Meeting data has {errors} and {warnings} (dev build only)',
+  'issues.errors': { one: '{count} error', other: '{count} errors' },
+  'issues.warnings': { one: '{count} warning', other: '{count} warnings' },
+  'issues.details': 'Details',
+  'issues.hide': 'Hide',
+  'issues.error': 'ERROR',
+  'issues.warning': 'WARNING',
+  'issues.header': 'header',
+  'issues.row': 'row {row}',
+
+  'issue.missingColumn': 'Missing required column "{column}"',
+  'issue.noName': 'Meeting has no name and will be skipped',
+  'issue.noDay': 'Missing day',
+  'issue.unknownDay': 'Unknown day "{day}"',
+  'issue.badTime': 'Could not read time "{time}"',
+  'issue.unknownTimeOfDay': 'Unknown time of day "{time}" (expected {expected})',
+  'issue.timeOfDayMismatch': 'Says "{time}" but "{timeDisplay}" is in the {actual}',
+  'issue.noType': 'Missing type',
+  'issue.unknownType': 'Unknown type "{type}" (expected {expected})',
+  'issue.typeSpelling': 'Type "{type}" should be written "{expected}"',
+  'issue.unknownTimeZone': 'Unknown time zone "{timeZone}" (use an IANA name like America/New_York)',
+  'issue.unknownAmenity': 'Unknown value "{value}" will show as unknown (use Yes, No or leave blank)',
+  'issue.unknownLanguage': 'Unknown language "{language}" will be ignored (use a name like Spanish or a code like es)',
+  'issue.unfamiliarFormat': 'Unfamiliar format "{format}" (common ones are {expected})',
+  'issue.inPersonNoAddress': 'In-person meeting has no address',
+  'issue.hybridNoAddress': 'Hybrid meeting has no address',
+  'issue.virtualNoAccess': 'Virtual meeting has no join link, meeting ID or dial-in number',
+  'issue.hybridNoAccess': 'Hybrid meeting has no join link, meeting ID or dial-in number',
+  'issue.garbled': 'Garbled characters in "{value}" (save the CSV as UTF-8)',
+  'issue.duplicateRow': 'Duplicate of row {row}',
+  'issue.duplicateId': 'Same id as row {row}; links to either meeting would break'
+};
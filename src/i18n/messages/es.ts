@@ -0,0 +1,235 @@
+import type { Messages } from '..';
+
+export const es: Messages = {
+  'app.language': 'Idioma',
+  'app.loading': 'Cargando reuniones... Esto solo debería tardar unos segundos.',
+  'app.loadError': 'No se pudieron cargar los datos de las reuniones',
+  'app.partialLoadError': 'No se pudieron cargar las reuniones de {districts}. Se muestran las demás.',
+  'app.placing': {
+    one: 'Ubicando {count} lugar más en el mapa...',
+    other: 'Ubicando {count} lugares más en el mapa...'
+  },
+  'app.offline': 'Parece que no tiene conexión. Se muestran los datos de reuniones del {date}.',
+
+  'view.label': 'Cómo mostrar las reuniones',
+  'view.map': 'Mapa y lista',
+  'view.week': 'Semana',
+
+  'results.found': { one: '{count} reunión encontrada', other: '{count} reuniones encontradas' },
+  'results.foundInArea': { one: '{count} reunión en esta zona del mapa', other: '{count} reuniones en esta zona del mapa' },
+  'results.none': 'No se encontraron reuniones que coincidan con su búsqueda.',
+  'results.downloadCalendar': 'Descargar calendario',
+  'results.print': 'Imprimir horario',
+  'results.mapAreaOnly': 'Mostrar solo las reuniones de la zona visible del mapa',
+
+  'map.cluster': '{count} reuniones en {locations} lugares. Haga clic para acercar.',
+  'popup.position': '{index} de {count} reuniones',
+  'popup.moreHere': 'Use las flechas de arriba para ver otras reuniones en este lugar',
+
+  'meeting.when': '{day} a las {time}',
+  'meeting.unknownDay': 'Día desconocido',
+  'meeting.moreDetails': 'Más detalles',
+  'meeting.addToCalendar': 'Agregar al calendario',
+  'meeting.directions': 'Cómo llegar',
+  'meeting.contact': 'Contacto: {contact}',
+  'meeting.away': 'a {distance}',
+  'meeting.yourTime': 'Su hora: {day} {time} {zone} (publicada en {listedZone})',
+
+  'type.in-Person': 'Presencial',
+  'type.virtual': 'Virtual',
+  'type.hybrid': 'Híbrida',
+
+  'timeOfDay.morning': 'Mañana',
+  'timeOfDay.afternoon': 'Tarde',
+  'timeOfDay.evening': 'Noche',
+
+  'format.regular': 'Regular',
+  'format.beginner': 'Principiantes',
+  'format.speaker': 'Oradores',
+  'format.step study': 'Estudio de los Pasos',
+  'format.literature': 'Literatura',
+  'format.discussion': 'Discusión',
+
+  'amenity.wheelchair': 'Acceso para silla de ruedas',
+  'amenity.parking': 'Estacionamiento',
+  'amenity.childcare': 'Cuidado de niños',
+  'amenity.fragranceFree': 'Sin fragancias',
+  'amenity.yes': '{amenity}: sí',
+  'amenity.no': '{amenity}: no',
+  'amenity.unknown': '{amenity}: se desconoce',
+
+  'filters.searchPlaceholder': 'Buscar nombre, lugar, pueblo, notas...',
+  'filters.searchLabel': 'Buscar reuniones',
+  'filters.day': 'Día',
+  'filters.allDays': 'Todos los días',
+  'filters.format': 'Formato',
+  'filters.allFormats': 'Todos los formatos',
+  'filters.time': 'Hora del día',
+  'filters.allTimes': 'Todas las horas',
+  'filters.type': 'Tipo de reunión',
+  'filters.allTypes': 'Todos los tipos',
+  'filters.amenities': 'Accesibilidad',
+  'filters.anyVenue': 'Cualquier lugar',
+  'filters.language': 'Idioma',
+  'filters.allLanguages': 'Todos los idiomas',
+  'filters.startsBetween': 'Empieza entre las {from} y las {to}',
+  'filters.reset': 'Borrar filtros',
+
+  'district.label': 'Distrito',
+  'district.all': 'Todos los distritos',
+
+  'now.label': 'Ahora mismo',
+  'now.within': 'Empieza dentro de',
+  'now.minutes': '{count} minutos',
+  'now.hours': { one: '{count} hora', other: '{count} horas' },
+  'now.inProgress': 'En curso · termina en {duration}',
+  'now.startsIn': 'Empieza en {duration}',
+  'duration.minutes': '{minutes} min',
+  'duration.hours': '{hours} h',
+  'duration.hoursMinutes': '{hours} h {minutes} min',
+
+  'near.useLocation': 'Usar mi ubicación',
+  'near.placePlaceholder': 'o un pueblo o código postal',
+  'near.placeLabel': 'Pueblo o código postal',
+  'near.find': 'Buscar pueblo o código postal',
+  'near.within': 'Dentro de',
+  'near.anyDistance': 'Cualquier distancia',
+  'near.miles': '{count} millas',
+  'near.chip': 'Cerca de {place}',
+  'near.yourLocation': 'su ubicación',
+  'near.noGeolocation': 'Su navegador no comparte su ubicación. Intente escribir un pueblo o código postal.',
+  'near.locationFailed': 'No se pudo obtener su ubicación. Intente escribir un pueblo o código postal.',
+  'near.notFound': 'No se encontró "{place}".',
+
+  'saved.toggle': 'Mis reuniones ({count})',
+  'saved.empty': 'Todavía no ha guardado ninguna reunión. Toque la estrella junto a una reunión para agregarla a Mis reuniones.',
+  'saved.save': 'Guardar en mis reuniones',
+  'saved.remove': 'Quitar de mis reuniones',
+  'saved.changedTitle': 'Sus reuniones guardadas han cambiado',
+  'saved.changed': 'Cambió: {changes}. Ahora es el {day} a las {time}.',
+  'saved.removed': '{name} ya no aparece en el horario.',
+  'saved.dismiss': 'Entendido',
+  'saved.field.day': 'día',
+  'saved.field.timeDisplay': 'hora',
+  'saved.field.type': 'tipo de reunión',
+  'saved.field.address': 'dirección',
+  'saved.field.description': 'lugar',
+  'saved.field.format': 'formato',
+  'saved.field.access': 'datos de acceso en línea',
+
+  'detail.back': 'Volver a todas las reuniones',
+  'detail.loading': 'Cargando reunión...',
+  'detail.notFound': 'Reunión no encontrada',
+  'detail.notFoundBody': 'Esta reunión no aparece en el horario actual. Puede que se haya mudado, cambiado de hora o dejado de reunirse.',
+  'detail.nearby': 'Reuniones cercanas',
+
+  'access.join': 'Unirse a la reunión de {platform}',
+  'access.joinOnline': 'Unirse a la reunión en línea',
+  'access.meetingId': 'ID de {platform}: {id}',
+  'access.passcode': 'Código de acceso: {passcode}',
+  'access.dialIn': 'Llamar al: {number}',
+  'access.dialInFrom': 'Llamar al ({label}): {number}',
+
+  'week.unscheduled': 'Sin día u hora fijos:',
+
+  'print.qrCodes': 'Códigos QR',
+  'print.qrNone': 'Sin códigos QR',
+  'print.qrSite': 'Enlace a este horario en línea',
+  'print.qrMeetings': 'Enlace a cada reunión',
+  'print.print': 'Imprimir',
+  'print.loading': 'Cargando reuniones...',
+  'print.empty': 'Ninguna reunión coincide con los filtros actuales. Vuelva atrás y cámbielos para imprimir un horario.',
+  'print.title': 'Reuniones: {district}',
+  'print.titleAll': 'Horario de reuniones',
+  'print.summary': { one: '{count} reunión al {date}.', other: '{count} reuniones al {date}.' },
+  'print.checkOnline': 'Los horarios cambian; consulte {site} para ver el horario más reciente.',
+  'print.otherTimes': 'Otros horarios',
+  'print.join': 'Unirse: {url}',
+  'print.qrSiteAlt': 'Código QR de este horario en línea',
+  'print.qrMeetingAlt': 'Código QR de {name}',
+
+  'editor.back': 'Volver a todas las reuniones',
+  'editor.title': 'Editar reuniones',
+  'editor.intro': 'Los cambios se quedan en este navegador hasta que exporte el CSV. Reemplace public/{file} con el archivo exportado y vuelva a publicar el sitio.',
+  'editor.district': 'Distrito',
+  'editor.add': 'Agregar reunión',
+  'editor.edit': 'Editar reunión',
+  'editor.delete': 'Eliminar reunión',
+  'editor.export': 'Exportar CSV',
+  'editor.unsaved': 'Cambios sin exportar',
+  'editor.loading': 'Cargando reuniones...',
+  'editor.loadError': 'No se pudo cargar {file}',
+  'editor.problems': {
+    one: 'Hay {count} problema por corregir. Las filas con errores pueden omitirse o mostrarse mal en el buscador.',
+    other: 'Hay {count} problemas por corregir. Las filas con errores pueden omitirse o mostrarse mal en el buscador.'
+  },
+  'editor.name': 'Nombre',
+  'editor.day': 'Día',
+  'editor.time': 'Hora',
+  'editor.type': 'Tipo',
+  'editor.address': 'Dirección',
+  'editor.checks': 'Revisión',
+  'editor.actions': 'Acciones',
+  'editor.ok': 'Correcto',
+  'editor.issues': { one: '{count} aviso', other: '{count} avisos' },
+  'editor.confirmDiscard': '¿Descartar los cambios que no ha exportado?',
+  'editor.confirmDelete': '¿Eliminar «{name}»?',
+  'editor.thisMeeting': 'esta reunión',
+  'editor.mapPreview': 'Vista previa del mapa',
+  'editor.placed': '{placed} de {total} reuniones presenciales e híbridas ubicadas. Los números corresponden a las filas de la tabla.',
+  'editor.none': 'Ninguno',
+  'editor.unknown': 'Desconocido',
+  'editor.cancel': 'Cancelar',
+  'editor.save': 'Guardar',
+
+  'column.name': 'Nombre',
+  'column.description': 'Nombre del lugar',
+  'column.day': 'Día',
+  'column.time': 'Momento del día',
+  'column.timeDisplay': 'Hora (p. ej., 7:00 - 8:00 PM)',
+  'column.type': 'Tipo',
+  'column.address': 'Dirección',
+  'column.Contact': 'Contacto',
+  'column.Zoomid': 'ID de Zoom / datos de acceso',
+  'column.Notes': 'Notas',
+  'column.format': 'Formato (separados por comas, p. ej., Beginner, Step Study)',
+  'column.platform': 'Plataforma',
+  'column.meetingId': 'ID de la reunión',
+  'column.passcode': 'Código de acceso',
+  'column.joinUrl': 'Enlace para unirse',
+  'column.dialIn': 'Números de acceso telefónico',
+  'column.timeZone': 'Zona horaria (p. ej., America/Chicago; en blanco para la del distrito)',
+  'column.language': 'Idiomas (separados por comas, p. ej., English, Spanish)',
+
+  'issues.summary': 'Los datos de reuniones tienen {errors} y {warnings} (solo en desarrollo)',
+  'issues.errors': { one: '{count} error', other: '{count} errores' },
+  'issues.warnings': { one: '{count} advertencia', other: '{count} advertencias' },
+  'issues.details': 'Detalles',
+  'issues.hide': 'Ocultar',
+  'issues.error': 'ERROR',
+  'issues.warning': 'ADVERTENCIA',
+  'issues.header': 'encabezado',
+  'issues.row': 'fila {row}',
+
+  'issue.missingColumn': 'Falta la columna obligatoria «{column}»',
+  'issue.noName': 'La reunión no tiene nombre y se omitirá',
+  'issue.noDay': 'Falta el día',
+  'issue.unknownDay': 'Día desconocido «{day}»',
+  'issue.badTime': 'No se pudo leer la hora «{time}»',
+  'issue.unknownTimeOfDay': 'Momento del día desconocido «{time}» (se esperaba {expected})',
+  'issue.timeOfDayMismatch': 'Dice «{time}», pero «{timeDisplay}» es en la {actual}',
+  'issue.noType': 'Falta el tipo',
+  'issue.unknownType': 'Tipo desconocido «{type}» (se esperaba {expected})',
+  'issue.typeSpelling': 'El tipo «{type}» debe escribirse «{expected}»',
+  'issue.unknownTimeZone': 'Zona horaria desconocida «{timeZone}» (use un nombre IANA como America/New_York)',
+  'issue.unknownAmenity': 'El valor desconocido «{value}» se mostrará como desconocido (use Yes, No o déjelo en blanco)',
+  'issue.unknownLanguage': 'El idioma desconocido «{language}» se ignorará (use un nombre como Spanish o un código como es)',
+  'issue.unfamiliarFormat': 'Formato poco común «{format}» (los habituales son {expected})',
+  'issue.inPersonNoAddress': 'La reunión presencial no tiene dirección',
+  'issue.hybridNoAddress': 'La reunión híbrida no tiene dirección',
+  'issue.virtualNoAccess': 'La reunión virtual no tiene enlace, ID de reunión ni número de acceso telefónico',
+  'issue.hybridNoAccess': 'La reunión híbrida no tiene enlace, ID de reunión ni número de acceso telefónico',
+  'issue.garbled': 'Caracteres dañados en «{value}» (guarde el CSV como UTF-8)',
+  'issue.duplicateRow': 'Duplicado de la fila {row}',
+  'issue.duplicateId': 'Mismo id que la fila {row}; los enlaces a cualquiera de las dos reuniones fallarían'
+};
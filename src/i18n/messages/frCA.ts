@@ -0,0 +1,235 @@
+import type { Messages } from '..';
+
+export const frCA: Messages = {
+  'app.language': 'Langue',
+  'app.loading': 'Chargement des réunions... Ça ne devrait prendre que quelques secondes.',
+  'app.loadError': 'Impossible de charger les données des réunions',
+  'app.partialLoadError': 'Impossible de charger les réunions de {districts}. Les autres sont affichées.',
+  'app.placing': {
+    one: 'Ajout de {count} autre lieu sur la carte...',
+    other: 'Ajout de {count} autres lieux sur la carte...'
+  },
+  'app.offline': 'Vous semblez être hors ligne. Les données affichées datent du {date}.',
+
+  'view.label': 'Affichage des réunions',
+  'view.map': 'Carte et liste',
+  'view.week': 'Semaine',
+
+  'results.found': { one: '{count} réunion trouvée', other: '{count} réunions trouvées' },
+  'results.foundInArea': { one: '{count} réunion dans cette zone de la carte', other: '{count} réunions dans cette zone de la carte' },
+  'results.none': 'Aucune réunion ne correspond à vos critères.',
+  'results.downloadCalendar': 'Télécharger le calendrier',
+  'results.print': "Imprimer l'horaire",
+  'results.mapAreaOnly': 'Afficher seulement les réunions visibles sur la carte',
+
+  'map.cluster': '{count} réunions à {locations} endroits. Cliquez pour zoomer.',
+  'popup.position': '{index} de {count} réunions',
+  'popup.moreHere': 'Utilisez les flèches ci-dessus pour voir les autres réunions à cet endroit',
+
+  'meeting.when': '{day} à {time}',
+  'meeting.unknownDay': 'Jour inconnu',
+  'meeting.moreDetails': 'Plus de détails',
+  'meeting.addToCalendar': 'Ajouter au calendrier',
+  'meeting.directions': 'Itinéraire',
+  'meeting.contact': 'Contact : {contact}',
+  'meeting.away': 'à {distance}',
+  'meeting.yourTime': 'Votre heure : {day} {time} {zone} (affichée en {listedZone})',
+
+  'type.in-Person': 'En personne',
+  'type.virtual': 'Virtuelle',
+  'type.hybrid': 'Hybride',
+
+  'timeOfDay.morning': 'Matin',
+  'timeOfDay.afternoon': 'Après-midi',
+  'timeOfDay.evening': 'Soir',
+
+  'format.regular': 'Régulière',
+  'format.beginner': 'Nouveaux',
+  'format.speaker': 'Conférencier',
+  'format.step study': 'Étude des Étapes',
+  'format.literature': 'Littérature',
+  'format.discussion': 'Discussion',
+
+  'amenity.wheelchair': 'Accessible en fauteuil roulant',
+  'amenity.parking': 'Stationnement',
+  'amenity.childcare': 'Service de garde',
+  'amenity.fragranceFree': 'Sans parfum',
+  'amenity.yes': '{amenity} : oui',
+  'amenity.no': '{amenity} : non',
+  'amenity.unknown': '{amenity} : inconnu',
+
+  'filters.searchPlaceholder': 'Rechercher un nom, un lieu, une ville, des notes...',
+  'filters.searchLabel': 'Rechercher des réunions',
+  'filters.day': 'Jour',
+  'filters.allDays': 'Tous les jours',
+  'filters.format': 'Format',
+  'filters.allFormats': 'Tous les formats',
+  'filters.time': 'Moment de la journée',
+  'filters.allTimes': 'Toute la journée',
+  'filters.type': 'Type de réunion',
+  'filters.allTypes': 'Tous les types',
+  'filters.amenities': 'Accessibilité',
+  'filters.anyVenue': "N'importe quel lieu",
+  'filters.language': 'Langue',
+  'filters.allLanguages': 'Toutes les langues',
+  'filters.startsBetween': 'Commence entre {from} et {to}',
+  'filters.reset': 'Effacer les filtres',
+
+  'district.label': 'District',
+  'district.all': 'Tous les districts',
+
+  'now.label': 'En ce moment',
+  'now.within': 'Commence d’ici',
+  'now.minutes': '{count} minutes',
+  'now.hours': { one: '{count} heure', other: '{count} heures' },
+  'now.inProgress': 'En cours · se termine dans {duration}',
+  'now.startsIn': 'Commence dans {duration}',
+  'duration.minutes': '{minutes} min',
+  'duration.hours': '{hours} h',
+  'duration.hoursMinutes': '{hours} h {minutes} min',
+
+  'near.useLocation': 'Utiliser ma position',
+  'near.placePlaceholder': 'ou une ville ou un code postal',
+  'near.placeLabel': 'Ville ou code postal',
+  'near.find': 'Trouver la ville ou le code postal',
+  'near.within': 'Dans un rayon de',
+  'near.anyDistance': 'Toute distance',
+  'near.miles': '{count} milles',
+  'near.chip': 'Près de {place}',
+  'near.yourLocation': 'votre position',
+  'near.noGeolocation': 'Votre navigateur ne partage pas votre position. Essayez d’entrer une ville ou un code postal.',
+  'near.locationFailed': 'Impossible d’obtenir votre position. Essayez d’entrer une ville ou un code postal.',
+  'near.notFound': 'Impossible de trouver « {place} ».',
+
+  'saved.toggle': 'Mes réunions ({count})',
+  'saved.empty': 'Vous n’avez encore enregistré aucune réunion. Touchez l’étoile à côté d’une réunion pour l’ajouter à Mes réunions.',
+  'saved.save': 'Ajouter à mes réunions',
+  'saved.remove': 'Retirer de mes réunions',
+  'saved.changedTitle': 'Vos réunions enregistrées ont changé',
+  'saved.changed': 'Modifié : {changes}. Maintenant le {day} à {time}.',
+  'saved.removed': '{name} ne figure plus à l’horaire.',
+  'saved.dismiss': 'Compris',
+  'saved.field.day': 'jour',
+  'saved.field.timeDisplay': 'heure',
+  'saved.field.type': 'type de réunion',
+  'saved.field.address': 'adresse',
+  'saved.field.description': 'lieu',
+  'saved.field.format': 'format',
+  'saved.field.access': 'accès en ligne',
+
+  'detail.back': 'Retour à toutes les réunions',
+  'detail.loading': 'Chargement de la réunion...',
+  'detail.notFound': 'Réunion introuvable',
+  'detail.notFoundBody': 'Cette réunion ne figure pas à l’horaire actuel. Elle a peut-être déménagé, changé d’heure ou cessé de se réunir.',
+  'detail.nearby': 'Réunions à proximité',
+
+  'access.join': 'Rejoindre la réunion {platform}',
+  'access.joinOnline': 'Rejoindre la réunion en ligne',
+  'access.meetingId': 'ID {platform} : {id}',
+  'access.passcode': 'Code d’accès : {passcode}',
+  'access.dialIn': 'Par téléphone : {number}',
+  'access.dialInFrom': 'Par téléphone ({label}) : {number}',
+
+  'week.unscheduled': 'Sans jour ni heure fixes :',
+
+  'print.qrCodes': 'Codes QR',
+  'print.qrNone': 'Aucun code QR',
+  'print.qrSite': 'Lien vers cet horaire en ligne',
+  'print.qrMeetings': 'Lien vers chaque réunion',
+  'print.print': 'Imprimer',
+  'print.loading': 'Chargement des réunions...',
+  'print.empty': 'Aucune réunion ne correspond aux filtres actuels. Revenez en arrière et modifiez-les pour imprimer un horaire.',
+  'print.title': 'Réunions : {district}',
+  'print.titleAll': 'Horaire des réunions',
+  'print.summary': { one: '{count} réunion en date du {date}.', other: '{count} réunions en date du {date}.' },
+  'print.checkOnline': 'Les horaires changent; consultez {site} pour l’horaire le plus récent.',
+  'print.otherTimes': 'Autres moments',
+  'print.join': 'Rejoindre : {url}',
+  'print.qrSiteAlt': 'Code QR de cet horaire en ligne',
+  'print.qrMeetingAlt': 'Code QR de {name}',
+
+  'editor.back': 'Retour à toutes les réunions',
+  'editor.title': 'Modifier les réunions',
+  'editor.intro': 'Les modifications restent dans ce navigateur jusqu’à l’exportation du CSV. Remplacez public/{file} par le fichier exporté et redéployez le site pour les publier.',
+  'editor.district': 'District',
+  'editor.add': 'Ajouter une réunion',
+  'editor.edit': 'Modifier la réunion',
+  'editor.delete': 'Supprimer la réunion',
+  'editor.export': 'Exporter le CSV',
+  'editor.unsaved': 'Modifications non exportées',
+  'editor.loading': 'Chargement des réunions...',
+  'editor.loadError': 'Impossible de charger {file}',
+  'editor.problems': {
+    one: '{count} problème à corriger. Les lignes comportant des erreurs peuvent être ignorées ou mal affichées dans l’outil de recherche.',
+    other: '{count} problèmes à corriger. Les lignes comportant des erreurs peuvent être ignorées ou mal affichées dans l’outil de recherche.'
+  },
+  'editor.name': 'Nom',
+  'editor.day': 'Jour',
+  'editor.time': 'Heure',
+  'editor.type': 'Type',
+  'editor.address': 'Adresse',
+  'editor.checks': 'Vérification',
+  'editor.actions': 'Actions',
+  'editor.ok': 'OK',
+  'editor.issues': { one: '{count} remarque', other: '{count} remarques' },
+  'editor.confirmDiscard': 'Abandonner les modifications non exportées?',
+  'editor.confirmDelete': 'Supprimer « {name} »?',
+  'editor.thisMeeting': 'cette réunion',
+  'editor.mapPreview': 'Aperçu de la carte',
+  'editor.placed': '{placed} réunions en personne et hybrides placées sur {total}. Les numéros correspondent aux lignes du tableau.',
+  'editor.none': 'Aucun',
+  'editor.unknown': 'Inconnu',
+  'editor.cancel': 'Annuler',
+  'editor.save': 'Enregistrer',
+
+  'column.name': 'Nom',
+  'column.description': 'Nom du lieu',
+  'column.day': 'Jour',
+  'column.time': 'Moment de la journée',
+  'column.timeDisplay': 'Heure (p. ex. 7:00 - 8:00 PM)',
+  'column.type': 'Type',
+  'column.address': 'Adresse',
+  'column.Contact': 'Contact',
+  'column.Zoomid': 'ID Zoom / détails d’accès',
+  'column.Notes': 'Notes',
+  'column.format': 'Format (séparés par des virgules, p. ex. Beginner, Step Study)',
+  'column.platform': 'Plateforme',
+  'column.meetingId': 'ID de réunion',
+  'column.passcode': 'Code d’accès',
+  'column.joinUrl': 'Lien pour rejoindre',
+  'column.dialIn': 'Numéros d’accès téléphonique',
+  'column.timeZone': 'Fuseau horaire (p. ex. America/Chicago; vide pour celui du district)',
+  'column.language': 'Langues (séparées par des virgules, p. ex. English, Spanish)',
+
+  'issues.summary': 'Les données des réunions comportent {errors} et {warnings} (version de développement seulement)',
+  'issues.errors': { one: '{count} erreur', other: '{count} erreurs' },
+  'issues.warnings': { one: '{count} avertissement', other: '{count} avertissements' },
+  'issues.details': 'Détails',
+  'issues.hide': 'Masquer',
+  'issues.error': 'ERREUR',
+  'issues.warning': 'AVERTISSEMENT',
+  'issues.header': 'en-tête',
+  'issues.row': 'ligne {row}',
+
+  'issue.missingColumn': 'Colonne obligatoire « {column} » manquante',
+  'issue.noName': 'La réunion n’a pas de nom et sera ignorée',
+  'issue.noDay': 'Jour manquant',
+  'issue.unknownDay': 'Jour inconnu « {day} »',
+  'issue.badTime': 'Impossible de lire l’heure « {time} »',
+  'issue.unknownTimeOfDay': 'Moment de la journée inconnu « {time} » (attendu : {expected})',
+  'issue.timeOfDayMismatch': 'Indique « {time} », mais « {timeDisplay} » est en {actual}',
+  'issue.noType': 'Type manquant',
+  'issue.unknownType': 'Type inconnu « {type} » (attendu : {expected})',
+  'issue.typeSpelling': 'Le type « {type} » doit s’écrire « {expected} »',
+  'issue.unknownTimeZone': 'Fuseau horaire inconnu « {timeZone} » (utilisez un nom IANA comme America/New_York)',
+  'issue.unknownAmenity': 'La valeur inconnue « {value} » sera affichée comme inconnue (utilisez Yes, No ou laissez vide)',
+  'issue.unknownLanguage': 'La langue inconnue « {language} » sera ignorée (utilisez un nom comme Spanish ou un code comme es)',
+  'issue.unfamiliarFormat': 'Format inhabituel « {format} » (les plus courants sont {expected})',
+  'issue.inPersonNoAddress': 'La réunion en personne n’a pas d’adresse',
+  'issue.hybridNoAddress': 'La réunion hybride n’a pas d’adresse',
+  'issue.virtualNoAccess': 'La réunion virtuelle n’a ni lien, ni ID de réunion, ni numéro d’accès téléphonique',
+  'issue.hybridNoAccess': 'La réunion hybride n’a ni lien, ni ID de réunion, ni numéro d’accès téléphonique',
+  'issue.garbled': 'Caractères illisibles dans « {value} » (enregistrez le CSV en UTF-8)',
+  'issue.duplicateRow': 'Doublon de la ligne {row}',
+  'issue.duplicateId': 'Même id que la ligne {row}; les liens vers l’une ou l’autre réunion ne fonctionneraient plus'
+};
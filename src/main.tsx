@@ -1,26 +1,33 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import I18nProvider from './i18n/I18nProvider';
 import { CssBaseline, ThemeProvider, createTheme } from '@mui/material';
 import './index.css';
+import { registerServiceWorker } from './utils/offline';
+import { siteConfig } from './data/siteConfig';
 
 const theme = createTheme({
   palette: {
     mode: 'light',
     primary: {
-      main: '#1976d2',
+      main: siteConfig.theme.primaryColor,
     },
     secondary: {
-      main: '#dc004e',
+      main: siteConfig.theme.secondaryColor,
     },
   },
 });
 
+registerServiceWorker();
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <ThemeProvider theme={theme}>
       <CssBaseline />
-      <App />
+      <I18nProvider>
+        <App />
+      </I18nProvider>
     </ThemeProvider>
   </React.StrictMode>
 ); 
\ No newline at end of file
@@ -1,17 +1,45 @@
 export type TimeOfDay = 'morning' | 'afternoon' | 'evening';
 export type MeetingType = 'in-Person' | 'virtual' | 'hybrid';
+export type VirtualPlatform = 'zoom' | 'google-meet' | 'teams' | 'other';
+export type Amenity = 'wheelchair' | 'parking' | 'childcare' | 'fragranceFree';
+
+// true when the venue has it, false when it doesn't; missing means nobody has said
+export type Amenities = Partial<Record<Amenity, boolean>>;
+
+export interface PhoneDialIn {
+  number: string;
+  label?: string; // e.g. "New York"
+}
+
+// How to join a virtual or hybrid meeting
+export interface VirtualAccess {
+  platform: VirtualPlatform;
+  meetingId?: string; // digits only
+  passcode?: string;
+  joinUrl?: string;
+  dialIn: PhoneDialIn[];
+  notes?: string; // anything else in the Zoomid column, e.g. "Zoom only January & February"
+}
 
 export interface Meeting {
+  id: string; // stable slug used in /meeting/:id links
   name: string;
   description: string;
   day: string;
   time: TimeOfDay;
   timeDisplay: string;
+  startMinutes: number | null; // parsed from timeDisplay, minutes since midnight
+  endMinutes: number | null;
   type: MeetingType;
   address: string;
   Contact: string;
   zoomId?: string;
   notes?: string;
-  format?: string;
+  format?: string; // comma-separated tags, e.g. "Beginner, Step Study"
+  virtualAccess?: VirtualAccess | null;
+  amenities: Amenities;
+  languages: string[]; // codes like "en", "es"; empty if the CSV doesn't say
   coordinates?: [number, number] | null; // [latitude, longitude]
+  district: string; // id of the source district in the registry
+  timeZone: string; // IANA zone of day and timeDisplay, e.g. "America/New_York"
 } 
\ No newline at end of file
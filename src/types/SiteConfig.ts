@@ -0,0 +1,46 @@
+import type { District } from '../data/districts';
+import type { Locale } from '../i18n';
+
+// Visitor-facing text: the same in every language, or per language with English
+// as the fallback for the rest
+export type SiteText = string | ({ en: string } & Partial<Record<Locale, string>>);
+
+export interface SiteTheme {
+  brandColor: string; // headings, filters and highlighted markers, e.g. "#0d2357"
+  primaryColor: string; // MUI primary: links, switches, map clusters
+  secondaryColor: string;
+}
+
+export interface TileProvider {
+  urlTemplate: string; // Leaflet tile URL, e.g. "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"; the server must allow CORS
+  attribution: string; // HTML credit the provider requires on the map
+  subdomains?: string; // letters Leaflet picks from for {s}; defaults to "abc"
+}
+
+export interface SiteMap {
+  center: [number, number]; // [latitude, longitude] shown for "All districts"
+  zoom: number;
+  tiles: TileProvider;
+}
+
+// Who visitors can ask about the schedule, shown at the bottom of the page
+export interface SiteHelp {
+  text: SiteText;
+  email?: string;
+  phone?: string;
+  url?: string;
+}
+
+export interface SiteConfig {
+  name: string; // browser tab and installed app name
+  shortName: string; // under the home screen icon
+  description: string;
+  faviconPath: string; // file in /public
+  title: SiteText;
+  subtitle: SiteText;
+  theme: SiteTheme;
+  map: SiteMap;
+  districts: District[]; // where each district's meetings are loaded from
+  defaultDistrict: string; // a district id or "all"; VITE_DEFAULT_DISTRICT overrides it
+  help?: SiteHelp;
+}
@@ -0,0 +1,17 @@
+// Function to clean up address display (remove state and zip)
+export function cleanAddressDisplay(address: string): string {
+  if (!address) return '';
+  
+  // Remove state and zip code patterns like ", ME 04032" or ", Maine 04032"
+  return address
+    .replace(/,\s*ME\s+\d{5}(-\d{4})?/gi, '') // Remove ", ME 04032" or ", ME 04032-1234"
+    .replace(/,\s*Maine\s+\d{5}(-\d{4})?/gi, '') // Remove ", Maine 04032"
+    .replace(/,\s*ME$/gi, '') // Remove trailing ", ME"
+    .replace(/,\s*Maine$/gi, '') // Remove trailing ", Maine"
+    .trim();
+}
+
+// Turn-by-turn directions in Google Maps, which hands off to the phone's maps app
+export function getDirectionsUrl(address: string): string {
+  return `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(address.replace(/\s+/g, ' ').trim())}`;
+}
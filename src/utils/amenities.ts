@@ -0,0 +1,39 @@
+import { Amenity, Amenities, Meeting } from '../types/Meeting';
+
+// Optional CSV columns describing the venue, in display order
+export const AMENITIES: Array<{ key: Amenity, column: string }> = [
+  { key: 'wheelchair', column: 'wheelchair' },
+  { key: 'parking', column: 'parking' },
+  { key: 'childcare', column: 'childcare' },
+  { key: 'fragranceFree', column: 'fragranceFree' }
+];
+
+const YES_VALUES = ['yes', 'y', 'true', '1'];
+const NO_VALUES = ['no', 'n', 'false', '0'];
+
+// "Yes"/"No" in the CSV; blank or anything else is unknown (undefined)
+export function parseAmenityValue(value: string | undefined): boolean | undefined {
+  const normalized = (value || '').trim().toLowerCase();
+  if (YES_VALUES.includes(normalized)) return true;
+  if (NO_VALUES.includes(normalized)) return false;
+  return undefined;
+}
+
+export function isAmenityValue(value: string | undefined): boolean {
+  const normalized = (value || '').trim().toLowerCase();
+  return !normalized || YES_VALUES.includes(normalized) || NO_VALUES.includes(normalized);
+}
+
+export function parseAmenities(row: Record<string, any>): Amenities {
+  const amenities: Amenities = {};
+  AMENITIES.forEach(({ key, column }) => {
+    const value = parseAmenityValue(row[column]);
+    if (value !== undefined) amenities[key] = value;
+  });
+  return amenities;
+}
+
+// Whether a meeting is known to have every selected amenity; unknown doesn't count
+export function matchesAmenities(meeting: Meeting, amenities: Amenity[]): boolean {
+  return amenities.every(amenity => meeting.amenities[amenity] === true);
+}
@@ -0,0 +1,65 @@
+import { CRS, LatLngBounds, latLng } from 'leaflet';
+import { Meeting } from '../types/Meeting';
+
+// Meetings sharing one spot on the map
+export interface MapLocation {
+  coordinates: [number, number];
+  meetings: Meeting[];
+}
+
+// Nearby locations drawn as one marker at the current zoom
+export interface LocationCluster {
+  coordinates: [number, number]; // average of its locations
+  locations: MapLocation[];
+  meetingCount: number;
+}
+
+// Locations closer than this on screen are merged
+const CLUSTER_RADIUS_PX = 50;
+
+// From this zoom on every location gets its own marker
+export const CLUSTER_MAX_ZOOM = 15;
+
+// Group locations that would overlap at `zoom`. Each location joins the first
+// cluster within reach, so clusters stay put as the list changes order.
+// Locations for which `keepApart` is true are never merged (e.g. the selected one,
+// whose popup needs its own marker).
+export function clusterLocations(
+  locations: MapLocation[],
+  zoom: number,
+  keepApart: (location: MapLocation) => boolean = () => false
+): LocationCluster[] {
+  const clusters: Array<{ x: number, y: number, locations: MapLocation[] }> = [];
+
+  locations.forEach(location => {
+    const point = CRS.EPSG3857.latLngToPoint(latLng(location.coordinates), zoom);
+    const isApart = zoom >= CLUSTER_MAX_ZOOM || keepApart(location);
+    const cluster = isApart ? undefined : clusters.find(cluster =>
+      !keepApart(cluster.locations[0]) &&
+      Math.hypot(cluster.x - point.x, cluster.y - point.y) <= CLUSTER_RADIUS_PX
+    );
+
+    if (cluster) {
+      cluster.locations.push(location);
+    } else {
+      clusters.push({ x: point.x, y: point.y, locations: [location] });
+    }
+  });
+
+  return clusters.map(cluster => {
+    const count = cluster.locations.length;
+    return {
+      coordinates: [
+        cluster.locations.reduce((sum, location) => sum + location.coordinates[0], 0) / count,
+        cluster.locations.reduce((sum, location) => sum + location.coordinates[1], 0) / count
+      ],
+      locations: cluster.locations,
+      meetingCount: cluster.locations.reduce((sum, location) => sum + location.meetings.length, 0)
+    };
+  });
+}
+
+// Bounds to zoom the map to so a cluster's locations spread apart
+export function getClusterBounds(cluster: LocationCluster): LatLngBounds {
+  return new LatLngBounds(cluster.locations.map(location => location.coordinates));
+}
@@ -0,0 +1,11 @@
+// Shape of public/coordinates.json, written by `npm run geocode`
+export interface CoordinatesFile {
+  generatedAt: string;
+  coordinates: Record<string, [number, number]>; // keyed by getAddressKey(address)
+}
+
+// Addresses are matched with whitespace collapsed, since the CSVs
+// sometimes carry stray tabs and double spaces
+export function getAddressKey(address: string): string {
+  return address.replace(/\s+/g, ' ').trim();
+}
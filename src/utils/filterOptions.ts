@@ -0,0 +1,108 @@
+import { Meeting, TimeOfDay, MeetingType, Amenity } from '../types/Meeting';
+import { DAYS, getTimeOfDay } from './time';
+import { getFilterSchedule } from './timeZone';
+import { AMENITIES } from './amenities';
+import { Locale, translate, formatDayName, formatFormatTag, formatLanguageName } from '../i18n';
+
+export interface FilterOption<T extends string = string> {
+  value: T;
+  label: string;
+  count: number; // meetings in the loaded data with this value
+}
+
+// Values chosen in each filter; an empty list means no filtering
+export interface FilterSelection {
+  days: string[]; // lowercase day names
+  times: TimeOfDay[];
+  types: MeetingType[];
+  formats: string[]; // lowercase format tags
+  amenities: Amenity[]; // all must be confirmed
+  languages: string[]; // language codes
+}
+
+export interface FilterOptions {
+  days: FilterOption[];
+  times: FilterOption<TimeOfDay>[];
+  types: FilterOption<MeetingType>[];
+  formats: FilterOption[];
+  amenities: FilterOption<Amenity>[];
+  languages: FilterOption[]; // empty when no meeting says what language it's in
+}
+
+const timesOfDay: TimeOfDay[] = ['morning', 'afternoon', 'evening'];
+const meetingTypes: MeetingType[] = ['in-Person', 'virtual', 'hybrid'];
+
+// Format tags of a meeting: the CSV's format column may list several, "Beginner, Step Study"
+export function getFormatTags(format: string | undefined): string[] {
+  return (format || '')
+    .split(',')
+    .map(tag => tag.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+function countBy(values: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return counts;
+}
+
+// Options for each filter from the meetings actually loaded, in a sensible order.
+// Values still selected (e.g. from a shared link) are kept even with no matches.
+// Amenities are always listed, counting only meetings confirmed to have them.
+// Labels are in the reader's language; values stay as the CSV has them.
+export function getFilterOptions(meetings: Meeting[], selected: FilterSelection, now: Date, locale: Locale): FilterOptions {
+  // Days and times as the filters see them, see getFilterSchedule
+  const schedules = meetings.map(meeting => ({ meeting, schedule: getFilterSchedule(meeting, now) }));
+  const dayCounts = countBy(schedules.map(({ meeting, schedule }) => schedule?.day || (meeting.day || '').trim().toLowerCase()));
+  const timeCounts = countBy(schedules.map(({ meeting, schedule }) => schedule ? getTimeOfDay(schedule.startMinutes) : meeting.time));
+  const typeCounts = countBy(meetings.map(meeting => meeting.type));
+  const languageCounts = countBy(meetings.flatMap(meeting => meeting.languages));
+  selected.languages
+    .filter(language => !languageCounts.has(language))
+    .forEach(language => languageCounts.set(language, 0));
+
+  // Tags compare case-insensitively; the most common spelling is shown
+  const formatCounts = new Map<string, { label: string, count: number, spellings: Map<string, number> }>();
+  meetings.forEach(meeting => {
+    getFormatTags(meeting.format).forEach(tag => {
+      const key = tag.toLowerCase();
+      const entry = formatCounts.get(key) || { label: tag, count: 0, spellings: new Map() };
+      entry.count += 1;
+      entry.spellings.set(tag, (entry.spellings.get(tag) || 0) + 1);
+      entry.label = Array.from(entry.spellings.entries()).sort((a, b) => b[1] - a[1])[0][0];
+      formatCounts.set(key, entry);
+    });
+  });
+  selected.formats
+    .filter(format => !formatCounts.has(format))
+    .forEach(format => formatCounts.set(format, { label: format, count: 0, spellings: new Map() }));
+
+  return {
+    days: DAYS
+      .filter(day => dayCounts.has(day) || selected.days.includes(day))
+      .map(day => ({ value: day, label: formatDayName(day, locale), count: dayCounts.get(day) || 0 })),
+    times: timesOfDay
+      .filter(time => timeCounts.has(time) || selected.times.includes(time))
+      .map(time => ({ value: time, label: translate(locale, `timeOfDay.${time}`), count: timeCounts.get(time) || 0 })),
+    types: meetingTypes
+      .filter(type => typeCounts.has(type) || selected.types.includes(type))
+      .map(type => ({ value: type, label: translate(locale, `type.${type}`), count: typeCounts.get(type) || 0 })),
+    formats: Array.from(formatCounts.entries())
+      .map(([value, entry]) => ({ value, label: formatFormatTag(entry.label, locale), count: entry.count }))
+      .sort((a, b) => a.label.localeCompare(b.label, locale)),
+    amenities: AMENITIES.map(({ key }) => ({
+      value: key,
+      label: translate(locale, `amenity.${key}`),
+      count: meetings.filter(meeting => meeting.amenities[key] === true).length
+    })),
+    languages: Array.from(languageCounts.entries())
+      .map(([value, count]) => ({ value, label: formatLanguageName(value, locale), count }))
+      .sort((a, b) => a.label.localeCompare(b.label, locale))
+  };
+}
+
+// Whether a meeting's format tags include any of the selected (lowercase) ones
+export function matchesFormats(meeting: Meeting, formats: string[]): boolean {
+  const tags = getFormatTags(meeting.format).map(tag => tag.toLowerCase());
+  return formats.some(format => tags.includes(format));
+}
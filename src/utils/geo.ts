@@ -0,0 +1,19 @@
+const EARTH_RADIUS_MILES = 3958.8;
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+// Great-circle distance between two [latitude, longitude] points
+export function distanceInMiles(from: [number, number], to: [number, number]): number {
+  const dLat = toRadians(to[0] - from[0]);
+  const dLng = toRadians(to[1] - from[1]);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from[0])) * Math.cos(toRadians(to[0])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+// "0.4 mi", "12 mi"
+export function formatDistance(miles: number): string {
+  return miles < 10 ? `${miles.toFixed(1)} mi` : `${Math.round(miles)} mi`;
+}
@@ -0,0 +1,160 @@
+import { CoordinatesFile, getAddressKey } from './coordinates';
+
+// Nominatim allows one request per second; leave a little headroom
+const MIN_REQUEST_INTERVAL_MS = 1100;
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 2000;
+
+// Addresses Nominatim had no match for are retried after a week
+const NOT_FOUND_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const STORAGE_KEY = 'meeting-finder:geocoding';
+
+interface StoredEntry {
+  coordinates: [number, number] | null;
+  savedAt: number;
+}
+
+// Geocoding cache to avoid re-geocoding same addresses (keyed by getAddressKey).
+// null means the address can't be placed: stored when the geocoder found no
+// match, kept for this visit only when the lookup gave up.
+const geocodingCache = new Map<string, [number, number] | null>();
+
+// Lookups that are queued or running, so each address is only requested once
+const pendingLookups = new Map<string, Promise<[number, number] | null>>();
+
+// Failures worth retrying: network errors, rate limiting and server errors
+class TransientGeocodingError extends Error {}
+
+function readStoredEntries(): Record<string, StoredEntry> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function storeEntry(key: string, coordinates: [number, number] | null) {
+  try {
+    const entries = readStoredEntries();
+    entries[key] = { coordinates, savedAt: Date.now() };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    // Private browsing or a full quota only costs us the cross-visit cache
+    console.warn('Could not persist geocoding result:', error);
+  }
+}
+
+// Restore results from earlier visits
+Object.entries(readStoredEntries()).forEach(([key, entry]) => {
+  if (entry.coordinates === null && Date.now() - entry.savedAt > NOT_FOUND_TTL_MS) return;
+  geocodingCache.set(key, entry.coordinates);
+});
+
+// Coordinates resolved at build time by `npm run geocode`, loaded once
+let coordinatesFileLoading: Promise<void> | null = null;
+
+export function loadCoordinatesFile(): Promise<void> {
+  if (!coordinatesFileLoading) {
+    coordinatesFileLoading = fetch('/coordinates.json')
+      .then(response => response.ok ? response.json() : null)
+      .then((file: CoordinatesFile | null) => {
+        Object.entries(file?.coordinates || {}).forEach(([address, coords]) => {
+          geocodingCache.set(address, coords);
+        });
+      })
+      .catch(err => {
+        console.warn('Could not load coordinates.json, geocoding in the browser instead:', err);
+      });
+  }
+  return coordinatesFileLoading;
+}
+
+// Coordinates already known for an address: a position, null if the geocoder
+// found nothing, or undefined if it hasn't been looked up yet
+export function getCachedCoordinates(address: string): [number, number] | null | undefined {
+  return geocodingCache.get(getAddressKey(address));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Requests run one at a time, spaced MIN_REQUEST_INTERVAL_MS apart
+let requestQueue: Promise<unknown> = Promise.resolve();
+let lastRequestAt = 0;
+
+function enqueueRequest<T>(request: () => Promise<T>): Promise<T> {
+  const run = requestQueue.then(async () => {
+    const wait = lastRequestAt + MIN_REQUEST_INTERVAL_MS - Date.now();
+    if (wait > 0) await sleep(wait);
+    lastRequestAt = Date.now();
+    return request();
+  });
+  requestQueue = run.catch(() => undefined);
+  return run;
+}
+
+async function requestCoordinates(address: string): Promise<[number, number] | null> {
+  let response: Response;
+  try {
+    response = await fetch(
+      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(address)}&limit=1&addressdetails=1`,
+      {
+        headers: {
+          'User-Agent': 'MeetingFinder/1.0 (https://github.com/FinnTeach/find-a-meeting)'
+        }
+      }
+    );
+  } catch (error) {
+    throw new TransientGeocodingError(`Network error: ${error}`);
+  }
+  
+  if (response.status === 429 || response.status >= 500) {
+    throw new TransientGeocodingError(`Nominatim responded ${response.status}`);
+  }
+  if (!response.ok) return null;
+  
+  const data = await response.json();
+  if (data && data[0]) {
+    return [parseFloat(data[0].lat), parseFloat(data[0].lon)];
+  }
+  return null;
+}
+
+// Look up an address through the throttled queue, retrying transient failures
+// with exponential backoff. Never rejects: resolves to null if it can't be placed this visit.
+export function geocodeAddress(address: string): Promise<[number, number] | null> {
+  if (!address) return Promise.resolve(null);
+  const key = getAddressKey(address);
+  
+  if (geocodingCache.has(key)) {
+    return Promise.resolve(geocodingCache.get(key)!);
+  }
+  const pending = pendingLookups.get(key);
+  if (pending) return pending;
+  // Nothing to retry against without a connection; try again next visit
+  if (!navigator.onLine) return Promise.resolve(null);
+  
+  const lookup = (async () => {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      try {
+        const coordinates = await enqueueRequest(() => requestCoordinates(address));
+        geocodingCache.set(key, coordinates);
+        storeEntry(key, coordinates);
+        return coordinates;
+      } catch (error) {
+        if (!(error instanceof TransientGeocodingError) || attempt === MAX_ATTEMPTS) {
+          // Cached for this visit so it isn't queued again, but not stored, so the next visit retries
+          console.warn(`Giving up geocoding "${address}" for now:`, error instanceof Error ? error.message : error);
+          geocodingCache.set(key, null);
+          return null;
+        }
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+    return null;
+  })().finally(() => pendingLookups.delete(key));
+  
+  pendingLookups.set(key, lookup);
+  return lookup;
+}
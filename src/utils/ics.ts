@@ -0,0 +1,207 @@
+import { Meeting } from '../types/Meeting';
+import { getPlatformLabel, formatMeetingId } from './virtualAccess';
+import { getDayIndex, MINUTES_PER_DAY } from './time';
+import { getZonedTime, getZoneOffset, getZoneTransitions, formatZoneName } from './timeZone';
+import { downloadFile } from './download';
+
+// Assumed length of a meeting whose timeDisplay has no end time
+const DEFAULT_DURATION = 60;
+
+const ICAL_DAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+// Escape text values per RFC 5545 (backslash, semicolon, comma, newline)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Octets a code point takes in UTF-8
+function utf8Length(codePoint: number): number {
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+}
+
+// Fold content lines longer than 75 octets onto continuation lines, which
+// start with a space. Breaks only between characters, so "é" isn't split.
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const character of line) {
+    const length = utf8Length(character.codePointAt(0)!);
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (octets + length > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += character;
+    octets += length;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+// Wall-clock date-time, e.g. 20240101T190000. The Date holds it in its UTC
+// fields; DTSTART and DTEND say which zone it's in with TZID.
+function formatLocalDateTime(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}00`;
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// UTC offset in minutes as iCalendar writes it, e.g. -0500
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+}
+
+// Yearly rule for a transition on the same weekday of the month, e.g.
+// "second Sunday of March"; within the last week it's "last Sunday" instead
+function getYearlyRule(local: Date): string {
+  const day = local.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+  const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+  return `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${week}${ICAL_DAYS[(local.getUTCDay() + 6) % 7]}`;
+}
+
+// VTIMEZONE for a TZID, as RFC 5545 requires for every zone events refer to.
+// Rules come from the zone's changes in the year before `now`, so they start
+// ahead of any exported event.
+function createTimeZone(timeZone: string, now: Date): string[] {
+  const year = now.getUTCFullYear() - 1;
+  const transitions = getZoneTransitions(timeZone, year);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(getZoneOffset(timeZone, now));
+    lines.push(
+      'BEGIN:STANDARD',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      `TZNAME:${formatZoneName(timeZone, now)}`,
+      'DTSTART:19700101T000000',
+      'END:STANDARD'
+    );
+  }
+  transitions.forEach(transition => {
+    // Observances start at the local time on the clock being left behind
+    const local = new Date(transition.at.getTime() + transition.offsetFrom * 60 * 1000);
+    const component = transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${component}`,
+      `TZOFFSETFROM:${formatOffset(transition.offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(transition.offsetTo)}`,
+      `TZNAME:${formatZoneName(timeZone, transition.at)}`,
+      `DTSTART:${formatLocalDateTime(local)}`,
+      getYearlyRule(local),
+      `END:${component}`
+    );
+  });
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+// Stable identifier so re-importing a meeting updates the existing event
+function createUid(meeting: Meeting): string {
+  return `${meeting.id}@meeting-finder`;
+}
+
+// Wall-clock start of the first occurrence on or after `from`'s date in the meeting's zone
+function getFirstOccurrence(meeting: Meeting, from: Date): Date {
+  const dayIndex = getDayIndex(meeting.day);
+  const today = getZonedTime(meeting.timeZone, from);
+  const daysAhead = (dayIndex - today.dayIndex + 7) % 7;
+  return new Date(Date.UTC(today.year, today.month - 1, today.day + daysAhead, 0, meeting.startMinutes!));
+}
+
+// A meeting can be exported once its day and start time are known
+export function canExportMeeting(meeting: Meeting): boolean {
+  return getDayIndex(meeting.day) !== -1 && meeting.startMinutes !== null;
+}
+
+function createEvent(meeting: Meeting, now: Date): string[] {
+  const start = getFirstOccurrence(meeting, now);
+  const duration = meeting.endMinutes !== null
+    ? (meeting.endMinutes - meeting.startMinutes! + MINUTES_PER_DAY) % MINUTES_PER_DAY || DEFAULT_DURATION
+    : DEFAULT_DURATION;
+  const end = new Date(start.getTime() + duration * 60 * 1000);
+  const access = meeting.virtualAccess;
+  const joinUrl = access?.joinUrl;
+  const platform = access ? getPlatformLabel(access.platform) : '';
+  
+  const description = [
+    meeting.description,
+    joinUrl ? `Join ${platform} Meeting: ${joinUrl}` : '',
+    access?.meetingId ? `${platform} ID: ${formatMeetingId(access.meetingId)}` : '',
+    access?.passcode ? `Passcode: ${access.passcode}` : '',
+    ...(access?.dialIn || []).map(dialIn => `Dial in${dialIn.label ? ` (${dialIn.label})` : ''}: ${dialIn.number}`),
+    access?.notes,
+    meeting.notes,
+    meeting.Contact ? `Contact: ${meeting.Contact}` : ''
+  ].filter(Boolean).join('\n\n');
+  
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${createUid(meeting)}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    `DTSTART;TZID=${meeting.timeZone}:${formatLocalDateTime(start)}`,
+    `DTEND;TZID=${meeting.timeZone}:${formatLocalDateTime(end)}`,
+    `RRULE:FREQ=WEEKLY;BYDAY=${ICAL_DAYS[getDayIndex(meeting.day)]}`,
+    `SUMMARY:${escapeText(meeting.name)}`
+  ];
+  
+  if (meeting.address) {
+    lines.push(`LOCATION:${escapeText(meeting.address)}`);
+  } else if (joinUrl) {
+    lines.push(`LOCATION:${escapeText(joinUrl)}`);
+  }
+  if (joinUrl) {
+    lines.push(`URL:${joinUrl}`);
+  }
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeText(description)}`);
+  }
+  
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// Build an iCalendar file with one weekly recurring event per meeting, and a
+// VTIMEZONE for each zone they're in
+export function createCalendar(meetings: Meeting[], now: Date = new Date()): string {
+  const exported = meetings.filter(canExportMeeting);
+  const timeZones = Array.from(new Set(exported.map(meeting => meeting.timeZone)));
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//FinnTeach//Meeting Finder//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...timeZones.flatMap(timeZone => createTimeZone(timeZone, now)),
+    ...exported.flatMap(meeting => createEvent(meeting, now)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Trigger a browser download of an .ics file
+export function downloadCalendar(meetings: Meeting[], filename: string) {
+  downloadFile(createCalendar(meetings), 'text/calendar;charset=utf-8', filename.endsWith('.ics') ? filename : `${filename}.ics`);
+}
+
+// File name for a single meeting's calendar file
+export function getCalendarFilename(meeting: Meeting): string {
+  return `${meeting.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}.ics`;
+}
@@ -0,0 +1,49 @@
+import { Meeting } from '../types/Meeting';
+
+// Optional CSV column listing the languages a meeting is held in, e.g. "English, Spanish"
+export const LANGUAGE_COLUMN = 'language';
+
+// Names the CSV may use, in English or the language itself, and their codes
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: 'en',
+  spanish: 'es',
+  'español': 'es',
+  espanol: 'es',
+  french: 'fr',
+  'français': 'fr',
+  francais: 'fr',
+  portuguese: 'pt',
+  'português': 'pt',
+  portugues: 'pt',
+  asl: 'ase',
+  'american sign language': 'ase'
+};
+
+// "Spanish" -> "es", "fr" -> "fr"; null if the value isn't a language we recognize
+export function parseLanguage(value: string): string | null {
+  const normalized = value.trim().toLowerCase();
+  if (LANGUAGE_NAMES[normalized]) return LANGUAGE_NAMES[normalized];
+  return /^[a-z]{2,3}$/.test(normalized) ? normalized : null;
+}
+
+// Codes of every recognized language in the column, without repeats
+export function parseLanguages(value: string | undefined): string[] {
+  const codes = (value || '')
+    .split(',')
+    .map(parseLanguage)
+    .filter((code): code is string => code !== null);
+  return Array.from(new Set(codes));
+}
+
+// Names in the column that parseLanguage can't read
+export function getUnknownLanguages(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => name && parseLanguage(name) === null);
+}
+
+// Whether a meeting is held in any of the selected languages
+export function matchesLanguages(meeting: Meeting, languages: string[]): boolean {
+  return languages.some(language => meeting.languages.includes(language));
+}
@@ -0,0 +1,66 @@
+import { DivIcon } from 'leaflet';
+import { BRAND_COLOR } from './siteConfig';
+
+// Function to create custom marker icon with number
+// (highlighted markers belong to the meeting hovered or selected in the list)
+export function createNumberedMarkerIcon(count: number, isMultiple: boolean, isHighlighted = false) {
+  const size = (isMultiple ? 40 : 30) + (isHighlighted ? 8 : 0);
+  const color = isHighlighted ? BRAND_COLOR : isMultiple ? '#ff6b35' : '#4caf50';
+  const textColor = '#ffffff';
+  
+  return new DivIcon({
+    className: 'custom-marker',
+    html: `
+      <div style="
+        background-color: ${color};
+        width: ${size}px;
+        height: ${size}px;
+        border-radius: 50%;
+        border: 3px solid white;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        font-weight: bold;
+        font-size: ${isMultiple ? '14px' : '12px'};
+        color: ${textColor};
+        box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+      ">
+        ${count}
+      </div>
+    `,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+    popupAnchor: [0, -size / 2]
+  });
+}
+
+// Function to create marker icon for a cluster of nearby locations,
+// sized by how many meetings it holds
+export function createClusterMarkerIcon(count: number, isHighlighted = false) {
+  const size = count < 10 ? 44 : count < 50 ? 52 : 60;
+  const color = isHighlighted ? BRAND_COLOR : '#1976d2';
+  
+  return new DivIcon({
+    className: 'custom-marker',
+    html: `
+      <div style="
+        background-color: ${color};
+        width: ${size}px;
+        height: ${size}px;
+        border-radius: 50%;
+        border: 3px solid white;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        font-weight: bold;
+        font-size: 15px;
+        color: #ffffff;
+        box-shadow: 0 0 0 5px ${color}55, 0 2px 4px rgba(0,0,0,0.3);
+      ">
+        ${count}
+      </div>
+    `,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2]
+  });
+}
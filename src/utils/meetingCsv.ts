@@ -0,0 +1,74 @@
+import Papa from 'papaparse';
+import { Meeting, TimeOfDay, MeetingType } from '../types/Meeting';
+import { parseTimeDisplay, getTimeOfDay } from './time';
+import { parseVirtualAccess } from './virtualAccess';
+import { createMeetingId } from './meetingId';
+import { parseAmenities } from './amenities';
+import { LANGUAGE_COLUMN, parseLanguages } from './languages';
+import { meetingCsvSchema } from './validation';
+import { isValidTimeZone, getViewerTimeZone } from './timeZone';
+import { getDistrict } from '../data/districts';
+
+export type MeetingRow = Record<string, string>;
+
+// A meeting's own zone if it names a valid one, else its district's
+export function getMeetingTimeZone(timeZone: string | undefined, districtId: string): string {
+  const zone = (timeZone || '').trim();
+  if (zone && isValidTimeZone(zone)) return zone;
+  return getDistrict(districtId)?.timeZone || getViewerTimeZone();
+}
+
+// Turn a CSV row (Papa.parse with header: true) into a Meeting, or null if it has no name
+export function parseMeetingRow(meeting: any, districtId: string): Meeting | null {
+  if (!meeting || !meeting.name || meeting.name.trim() === '') return null;
+  
+  // Prefer the parsed start time over the CSV's time-of-day column
+  const parsedTime = parseTimeDisplay(meeting.timeDisplay || '');
+  
+  return {
+    id: createMeetingId({
+      sourceId: meeting.id,
+      district: districtId,
+      name: meeting.name.trim(),
+      day: meeting.day || '',
+      startMinutes: parsedTime ? parsedTime.start : null
+    }),
+    name: meeting.name.trim(),
+    description: meeting.description || '',
+    day: meeting.day || '',
+    time: parsedTime ? getTimeOfDay(parsedTime.start) : (meeting.time as TimeOfDay) || 'morning',
+    timeDisplay: meeting.timeDisplay || '',
+    startMinutes: parsedTime ? parsedTime.start : null,
+    endMinutes: parsedTime ? parsedTime.end : null,
+    type: (meeting.type as MeetingType) || 'in-Person',
+    address: meeting.address || '',
+    Contact: meeting.Contact || '',
+    zoomId: meeting.Zoomid || meeting.zoomId || '',
+    notes: meeting.Notes || meeting.notes || '',
+    format: meeting.format || '',
+    virtualAccess: parseVirtualAccess(meeting),
+    amenities: parseAmenities(meeting),
+    languages: parseLanguages(meeting[LANGUAGE_COLUMN]),
+    coordinates: meeting.coordinates || null,
+    district: districtId,
+    timeZone: getMeetingTimeZone(meeting.timeZone, districtId)
+  };
+}
+
+// Parse a district CSV into rows and its header, adding any required columns it lacks
+export function parseMeetingCsvRows(csv: string): { rows: MeetingRow[], columns: string[] } {
+  const results = Papa.parse<MeetingRow>(csv, { header: true, skipEmptyLines: 'greedy' });
+  const columns = [...(results.meta.fields || [])];
+  meetingCsvSchema.requiredColumns
+    .filter(column => !columns.includes(column))
+    .forEach(column => columns.push(column));
+  return { rows: results.data, columns };
+}
+
+// Write rows back out with the given header order, so the file still loads the same way
+export function serializeMeetingRows(rows: MeetingRow[], columns: string[]): string {
+  return Papa.unparse({
+    fields: columns,
+    data: rows.map(row => columns.map(column => row[column] || ''))
+  }, { newline: '\n' }) + '\n';
+}
@@ -0,0 +1,277 @@
+import { Meeting, MeetingType, Amenity, Amenities } from '../types/Meeting';
+import { DAYS, getDayIndex, getTimeOfDay, formatMinutes } from './time';
+import { parseVirtualAccess, formatMeetingId, createDialInLink } from './virtualAccess';
+import { createMeetingId } from './meetingId';
+import { getFormatTags } from './filterOptions';
+import { getMeetingTimeZone } from './meetingCsv';
+
+// One meeting in the Meeting Guide JSON spec (https://github.com/code4recovery/spec),
+// the format the TSML WordPress plugin publishes. Only the fields we map are listed.
+export interface MeetingGuideMeeting {
+  name: string;
+  slug?: string;
+  day?: number | number[]; // 0 = Sunday ... 6 = Saturday; missing means by appointment
+  time?: string; // "19:00"
+  end_time?: string;
+  types?: string[];
+  notes?: string;
+  location?: string;
+  location_notes?: string;
+  formatted_address?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  postal_code?: string;
+  latitude?: number | string;
+  longitude?: number | string;
+  region?: string;
+  conference_url?: string;
+  conference_url_notes?: string;
+  conference_phone?: string;
+  conference_phone_notes?: string;
+  attendance_option?: 'in_person' | 'online' | 'hybrid' | 'inactive';
+  contact_1_name?: string;
+  contact_1_email?: string;
+  contact_1_phone?: string;
+  timezone?: string; // IANA zone
+  updated?: string;
+}
+
+// Spec type codes we have a field for
+const ONLINE_CODE = 'ONL';
+const TEMPORARILY_CLOSED_CODE = 'TC';
+const formatTypeCodes: Record<string, string> = {
+  'Beginner': 'B',
+  'Discussion': 'D',
+  'Literature': 'LIT',
+  'Speaker': 'SP',
+  'Step Study': 'ST'
+};
+
+// Spec codes for venue amenities. The spec has none for parking, and no code
+// only means a feed doesn't say, so imported amenities are never false.
+const amenityTypeCodes: Partial<Record<Amenity, string>> = {
+  wheelchair: 'X',
+  childcare: 'BA',
+  fragranceFree: 'FF'
+};
+
+// Spec codes for the languages in our language column
+const languageTypeCodes: Record<string, string> = {
+  en: 'EN',
+  es: 'S',
+  fr: 'FR',
+  pt: 'POR',
+  ase: 'ASL'
+};
+
+function getFormatTypeCode(tag: string): string | undefined {
+  const format = Object.keys(formatTypeCodes).find(format => format.toLowerCase() === tag.toLowerCase());
+  return format && formatTypeCodes[format];
+}
+
+const attendanceOptions: Record<MeetingType, MeetingGuideMeeting['attendance_option']> = {
+  'in-Person': 'in_person',
+  'virtual': 'online',
+  'hybrid': 'hybrid'
+};
+
+const EMAIL_PATTERN = /[^\s,;]+@[^\s,;]+\.[a-z]{2,}/i;
+const PHONE_PATTERN = /\+?1?[\s.-]?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}/;
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// "19:00" -> minutes since midnight
+function parseSpecTime(time: string | undefined): number | null {
+  const match = (time || '').match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  return minutes < 24 * 60 ? minutes : null;
+}
+
+// Minutes since midnight -> "19:00"
+function formatSpecTime(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+// Meeting Guide numbers days from Sunday; DAYS starts on Monday
+function fromSpecDay(day: number): string | null {
+  return day >= 0 && day <= 6 ? capitalize(DAYS[(day + 6) % 7]) : null;
+}
+
+function toSpecDay(day: string): number | undefined {
+  const index = getDayIndex(day);
+  return index === -1 ? undefined : (index + 1) % 7;
+}
+
+function getMeetingType(entry: MeetingGuideMeeting): MeetingType {
+  if (entry.attendance_option === 'online') return 'virtual';
+  if (entry.attendance_option === 'hybrid') return 'hybrid';
+  if (entry.attendance_option === 'in_person') return 'in-Person';
+
+  // Older feeds leave it to be worked out from the types and conference fields
+  const types = entry.types || [];
+  const hasConference = !!(entry.conference_url || entry.conference_phone) || types.includes(ONLINE_CODE);
+  const hasLocation = !!(entry.formatted_address || entry.address) && !types.includes(TEMPORARILY_CLOSED_CODE);
+  if (hasConference && hasLocation) return 'hybrid';
+  return hasConference ? 'virtual' : 'in-Person';
+}
+
+// Text fields of MeetingGuideMeeting, checked on feeds from other sites
+const textFields = [
+  'name', 'slug', 'time', 'end_time', 'notes', 'location', 'location_notes', 'formatted_address',
+  'address', 'city', 'state', 'postal_code', 'region', 'conference_url', 'conference_url_notes',
+  'conference_phone', 'conference_phone_notes', 'attendance_option', 'contact_1_name',
+  'contact_1_email', 'contact_1_phone', 'timezone', 'updated'
+] as const;
+
+const isDay = (day: unknown) => typeof day === 'number' || typeof day === 'string';
+
+// A feed entry with fields of the wrong type dropped, so one odd entry in
+// someone else's feed can't stop the district loading; null if it isn't an object
+function sanitizeEntry(entry: unknown): MeetingGuideMeeting | null {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return null;
+  const clean: Record<string, unknown> = { ...entry };
+  textFields
+    .filter(field => typeof clean[field] !== 'string')
+    .forEach(field => delete clean[field]);
+  if (Array.isArray(clean.day)) clean.day = clean.day.filter(isDay);
+  else if (!isDay(clean.day)) delete clean.day;
+  clean.types = Array.isArray(clean.types) ? clean.types.filter(type => typeof type === 'string') : [];
+  return clean as unknown as MeetingGuideMeeting;
+}
+
+function getAddress(entry: MeetingGuideMeeting): string {
+  if (entry.formatted_address) return entry.formatted_address;
+  const region = [entry.state, entry.postal_code].filter(Boolean).join(' ');
+  return [entry.address, entry.city, region].filter(Boolean).join(', ');
+}
+
+function getCoordinates(entry: MeetingGuideMeeting): [number, number] | null {
+  const lat = parseFloat(String(entry.latitude ?? ''));
+  const lng = parseFloat(String(entry.longitude ?? ''));
+  return isNaN(lat) || isNaN(lng) || (lat === 0 && lng === 0) ? null : [lat, lng];
+}
+
+// Meetings from a Meeting Guide feed. Entries meeting on several days become
+// one meeting per day; inactive and unscheduled entries are left out.
+export function parseMeetingGuideFeed(feed: unknown, districtId: string): Meeting[] {
+  if (!Array.isArray(feed)) {
+    throw new Error('Meeting Guide feed should be a JSON array of meetings');
+  }
+
+  return feed
+    .map(sanitizeEntry)
+    .filter((entry): entry is MeetingGuideMeeting => !!entry && !!entry.name?.trim() && entry.attendance_option !== 'inactive')
+    .flatMap(entry => {
+      const days = (Array.isArray(entry.day) ? entry.day : [entry.day])
+        .map(day => fromSpecDay(Number(day)))
+        .filter((day): day is string => day !== null);
+      const startMinutes = parseSpecTime(entry.time);
+      const endMinutes = parseSpecTime(entry.end_time);
+      const timeDisplay = startMinutes === null
+        ? ''
+        : endMinutes === null ? formatMinutes(startMinutes) : `${formatMinutes(startMinutes)} - ${formatMinutes(endMinutes)}`;
+      const types = entry.types || [];
+      const type = getMeetingType(entry);
+      const notes = [entry.notes, entry.location_notes].filter(Boolean).join('\n');
+      const virtualAccess = type === 'in-Person' ? null : parseVirtualAccess({
+        joinUrl: entry.conference_url,
+        dialIn: (entry.conference_phone || '').split(',')[0],
+        Zoomid: [entry.conference_url_notes, entry.conference_phone_notes].filter(Boolean).join('\n')
+      });
+      const name = entry.name.trim();
+      const amenities: Amenities = {};
+      (Object.keys(amenityTypeCodes) as Amenity[])
+        .filter(amenity => types.includes(amenityTypeCodes[amenity]!))
+        .forEach(amenity => amenities[amenity] = true);
+      const languages = Object.keys(languageTypeCodes).filter(language => types.includes(languageTypeCodes[language]));
+
+      return days.map(day => ({
+        id: createMeetingId({ district: districtId, name, day, startMinutes }),
+        name,
+        description: entry.location || '',
+        day,
+        time: startMinutes === null ? 'morning' : getTimeOfDay(startMinutes),
+        timeDisplay,
+        startMinutes,
+        endMinutes,
+        type,
+        address: type === 'virtual' ? '' : getAddress(entry),
+        Contact: [entry.contact_1_name, entry.contact_1_phone, entry.contact_1_email].filter(Boolean).join(' '),
+        notes,
+        format: Object.keys(formatTypeCodes).filter(format => types.includes(formatTypeCodes[format])).join(', ') || 'Regular',
+        virtualAccess,
+        amenities,
+        languages,
+        coordinates: getCoordinates(entry),
+        district: districtId,
+        timeZone: getMeetingTimeZone(entry.timezone, districtId)
+      }));
+    });
+}
+
+// Split our single Contact column into the spec's name, phone and email
+function splitContact(contact: string): Pick<MeetingGuideMeeting, 'contact_1_name' | 'contact_1_email' | 'contact_1_phone'> {
+  const email = contact.match(EMAIL_PATTERN)?.[0];
+  const phone = contact.match(PHONE_PATTERN)?.[0];
+  const name = contact
+    .replace(email || '', '')
+    .replace(phone || '', '')
+    .replace(/^[\s,;:-]+|[\s,;:-]+$/g, '');
+  return {
+    contact_1_name: name || undefined,
+    contact_1_email: email,
+    contact_1_phone: phone?.trim()
+  };
+}
+
+// Our meetings as a Meeting Guide feed, for neighbouring districts and area
+// websites to import. `regionNames` maps district ids to the region shown.
+export function toMeetingGuideFeed(meetings: Meeting[], regionNames: Record<string, string> = {}): MeetingGuideMeeting[] {
+  return meetings.map(meeting => {
+    const access = meeting.virtualAccess;
+    const types = [
+      ...getFormatTags(meeting.format)
+        .map(getFormatTypeCode)
+        .filter((code): code is string => !!code),
+      ...(Object.keys(amenityTypeCodes) as Amenity[])
+        .filter(amenity => meeting.amenities[amenity] === true)
+        .map(amenity => amenityTypeCodes[amenity]!),
+      ...meeting.languages
+        .map(language => languageTypeCodes[language])
+        .filter((code): code is string => !!code),
+      ...(meeting.type !== 'in-Person' ? [ONLINE_CODE] : [])
+    ];
+    const conferenceNotes = access && [
+      access.meetingId && `Meeting ID: ${formatMeetingId(access.meetingId)}`,
+      access.passcode && `Passcode: ${access.passcode}`,
+      access.notes
+    ].filter(Boolean).join('\n');
+    const dialIn = access?.dialIn[0];
+
+    return {
+      name: meeting.name,
+      slug: meeting.id,
+      day: toSpecDay(meeting.day),
+      time: meeting.startMinutes === null ? undefined : formatSpecTime(meeting.startMinutes),
+      end_time: meeting.endMinutes === null ? undefined : formatSpecTime(meeting.endMinutes),
+      types,
+      notes: meeting.notes || undefined,
+      location: meeting.description || undefined,
+      formatted_address: meeting.address || undefined,
+      latitude: meeting.coordinates?.[0],
+      longitude: meeting.coordinates?.[1],
+      region: regionNames[meeting.district] || meeting.district,
+      conference_url: access?.joinUrl,
+      conference_url_notes: conferenceNotes || undefined,
+      conference_phone: access && dialIn
+        ? createDialInLink(dialIn, access).replace(/^tel:/, '').replace(/%23/g, '#')
+        : undefined,
+      conference_phone_notes: dialIn?.label,
+      timezone: meeting.timeZone,
+      attendance_option: attendanceOptions[meeting.type] || 'in_person',
+      ...splitContact(meeting.Contact || '')
+    };
+  });
+}
@@ -0,0 +1,66 @@
+import { Meeting } from '../types/Meeting';
+import { DAYS } from './time';
+
+function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+// Start time as it appears in IDs, e.g. "1300"
+function formatIdTime(startMinutes: number | null): string {
+  return startMinutes === null
+    ? ''
+    : `${Math.floor(startMinutes / 60)}${(startMinutes % 60).toString().padStart(2, '0')}`.padStart(4, '0');
+}
+
+// Stable, readable ID. A CSV's own id column is used when it has one, so links
+// survive a change of day or time, e.g. "me-s2-peaks-island"; otherwise it's
+// built from the district, name, day and start time,
+// e.g. "me-s2-peaks-island-afg-monday-1300"
+export function createMeetingId(meeting: Pick<Meeting, 'district' | 'name' | 'day' | 'startMinutes'> & { sourceId?: string }): string {
+  const sourceId = (meeting.sourceId || '').trim();
+  if (sourceId) return slugify(`${meeting.district} ${sourceId}`);
+  return slugify(`${meeting.district} ${meeting.name} ${meeting.day} ${formatIdTime(meeting.startMinutes)}`);
+}
+
+// Give repeated IDs (same group, day and time twice in one CSV) a numeric suffix
+export function assignUniqueIds(meetings: Meeting[]): Meeting[] {
+  const counts = new Map<string, number>();
+  return meetings.map(meeting => {
+    const count = (counts.get(meeting.id) || 0) + 1;
+    counts.set(meeting.id, count);
+    return count === 1 ? meeting : { ...meeting, id: `${meeting.id}-${count}` };
+  });
+}
+
+// The district an ID was made in, from its leading district slug. The longest
+// match wins, so "nh-12-rye" belongs to NH 12 rather than NH 1
+export function findIdDistrictId(id: string, districtIds: string[]): string | undefined {
+  return districtIds
+    .filter(districtId => id.startsWith(`${slugify(districtId)}-`))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+// The meeting a built ID most likely meant after the group moved to another day
+// or time. The district and name must match exactly; among those, the same day
+// and start time wins, then the same day. Null when nothing matches or it's a toss-up.
+export function findClosestMeeting(id: string, meetings: Meeting[]): Meeting | null {
+  const candidates = meetings
+    .map(meeting => {
+      const prefix = `${slugify(`${meeting.district} ${meeting.name}`)}-`;
+      const [day, start] = id.startsWith(prefix) ? id.slice(prefix.length).split('-') : [];
+      return { meeting, day, start };
+    })
+    // "nh-12-rye-afg-tuesday-1830" is not the group called just "Rye"
+    .filter(({ day }) => day !== undefined && DAYS.includes(day));
+
+  const sameDay = candidates.filter(({ meeting, day }) => slugify(meeting.day) === day);
+  const sameTime = sameDay.filter(({ meeting, start }) => formatIdTime(meeting.startMinutes) === (start || ''));
+  const best = [sameTime, sameDay, candidates].find(matches => matches.length > 0) || [];
+
+  return best.length === 1 ? best[0].meeting : null;
+}
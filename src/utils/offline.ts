@@ -0,0 +1,57 @@
+import { District, districts } from '../data/districts';
+import { siteConfig } from '../data/siteConfig';
+import { getAreaTileUrls, TILE_HOST } from './tiles';
+
+// Header public/sw.js adds to meeting data it has stored
+const FETCHED_AT_HEADER = 'X-Fetched-At';
+
+// Register the service worker in production builds (in dev it would cache
+// modules Vite is still rebuilding). It is told which tile host to keep offline
+// and which favicon belongs in the app shell.
+export function registerServiceWorker() {
+  if (!('serviceWorker' in navigator) || !(import.meta as any).env.PROD) return;
+
+  const params = new URLSearchParams({ tileHost: TILE_HOST, favicon: siteConfig.faviconPath });
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`/sw.js?${params}`)
+      .then(() => navigator.serviceWorker.ready)
+      .then(cacheAppFiles)
+      .catch(error => {
+        console.warn('Service worker registration failed:', error);
+      });
+  });
+}
+
+// The first visit loads the scripts and meeting data before the worker is
+// installed, so it's sent them to store; otherwise opening the app offline
+// would find index.html but not the scripts it needs
+function cacheAppFiles(registration: ServiceWorkerRegistration) {
+  const assets = performance.getEntriesByType('resource')
+    .map(entry => new URL(entry.name))
+    .filter(url => url.origin === window.location.origin && url.pathname.startsWith('/assets/'))
+    .map(url => url.pathname);
+  const data = [
+    '/coordinates.json',
+    ...districts.map(district => district.dataPath).filter(path => path.startsWith('/'))
+  ];
+  registration.active?.postMessage({ type: 'cache-files', assets, data });
+}
+
+// When a response came from the service worker's cache rather than the
+// network, the time it was originally fetched; otherwise null
+export function getCachedAt(response: Response): Date | null {
+  const fetchedAt = response.headers.get(FETCHED_AT_HEADER);
+  if (!fetchedAt) return null;
+  const date = new Date(fetchedAt);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Ask the service worker to store the map tiles around each district
+export function cacheDistrictTiles(districts: District[]) {
+  if (!('serviceWorker' in navigator) || !navigator.onLine) return;
+
+  navigator.serviceWorker.ready.then(registration => {
+    const urls = districts.flatMap(district => getAreaTileUrls(district.center, district.zoom));
+    registration.active?.postMessage({ type: 'cache-tiles', urls });
+  });
+}
@@ -0,0 +1,47 @@
+export type Route =
+  | { name: 'home' }
+  | { name: 'meeting', id: string }
+  | { name: 'editor' }
+  | { name: 'print' };
+
+const MEETING_PATH = /^\/meeting\/([^/]+)\/?$/;
+
+// Not linked from the app; district secretaries are given the URL
+const EDITOR_PATH = '/editor';
+
+// Paper schedule of the meetings matching the filters in the query string
+export const PRINT_PATH = '/print';
+
+// A mangled link ("%E0%A4%A") still reaches the meeting page, which reports it not found
+function decodeMeetingId(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+export function parseRoute(pathname: string): Route {
+  const meetingMatch = pathname.match(MEETING_PATH);
+  if (meetingMatch) {
+    return { name: 'meeting', id: decodeMeetingId(meetingMatch[1]) };
+  }
+  if (pathname.replace(/\/$/, '') === EDITOR_PATH) {
+    return { name: 'editor' };
+  }
+  if (pathname.replace(/\/$/, '') === PRINT_PATH) {
+    return { name: 'print' };
+  }
+  return { name: 'home' };
+}
+
+export function getMeetingPath(id: string): string {
+  return `/meeting/${encodeURIComponent(id)}`;
+}
+
+// Change the page without reloading; App listens for popstate to re-read the route
+export function navigate(path: string) {
+  window.history.pushState(null, '', path);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+  window.scrollTo(0, 0);
+}
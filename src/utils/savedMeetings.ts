@@ -0,0 +1,125 @@
+import { Meeting } from '../types/Meeting';
+import { findClosestMeeting } from './meetingId';
+
+const STORAGE_KEY = 'meeting-finder:saved-meetings';
+
+// What a saved meeting looked like when it was saved or last checked
+interface MeetingSnapshot {
+  day: string;
+  timeDisplay: string;
+  type: string;
+  address: string;
+  description: string;
+  format: string;
+  access: string; // join link, meeting ID, passcode and dial-in numbers
+}
+
+export interface SavedMeeting {
+  id: string; // see createMeetingId
+  name: string;
+  district: string;
+  snapshot: MeetingSnapshot;
+}
+
+export type SnapshotField = keyof MeetingSnapshot;
+
+// A saved meeting that differs from the loaded schedule. `meeting` is null when
+// it's gone; otherwise `changes` lists what changed, e.g. ["timeDisplay", "address"].
+export interface SavedMeetingChange {
+  saved: SavedMeeting;
+  meeting: Meeting | null;
+  changes: SnapshotField[];
+}
+
+// Compared in the order changes are listed
+const snapshotFields: SnapshotField[] = ['day', 'timeDisplay', 'type', 'address', 'description', 'format', 'access'];
+
+function getSnapshot(meeting: Meeting): MeetingSnapshot {
+  const access = meeting.virtualAccess;
+  return {
+    day: (meeting.day || '').trim().toLowerCase(),
+    timeDisplay: meeting.timeDisplay,
+    type: meeting.type,
+    address: meeting.address || '',
+    description: meeting.description || '',
+    format: meeting.format || '',
+    access: access
+      ? [access.joinUrl, access.meetingId, access.passcode, ...access.dialIn.map(dialIn => dialIn.number)].filter(Boolean).join(' ')
+      : ''
+  };
+}
+
+export function createSavedMeeting(meeting: Meeting): SavedMeeting {
+  return { id: meeting.id, name: meeting.name, district: meeting.district, snapshot: getSnapshot(meeting) };
+}
+
+export function readSavedMeetings(): SavedMeeting[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(entry => entry && entry.id && entry.snapshot) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function writeSavedMeetings(saved: SavedMeeting[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch (error) {
+    // Private browsing or a full quota: the list still works until the page closes
+    console.warn('Could not save meetings list:', error);
+  }
+}
+
+// Find each saved meeting in freshly loaded meetings. Built IDs include the day
+// and start time, so a group that moved is matched by district and name instead.
+function matchSavedMeetings(saved: SavedMeeting[], meetings: Meeting[]): Map<SavedMeeting, Meeting | null> {
+  const byId = new Map(meetings.map(meeting => [meeting.id, meeting]));
+  const claimed = new Set(saved.map(entry => byId.get(entry.id)).filter(Boolean));
+  const matches = new Map<SavedMeeting, Meeting | null>();
+
+  saved.forEach(entry => {
+    const exact = byId.get(entry.id);
+    if (exact) {
+      matches.set(entry, exact);
+      return;
+    }
+    const candidates = meetings.filter(meeting =>
+      !claimed.has(meeting) &&
+      meeting.district === entry.district &&
+      meeting.name.trim().toLowerCase() === entry.name.trim().toLowerCase()
+    );
+    const moved = findClosestMeeting(entry.id, candidates);
+    if (moved) claimed.add(moved);
+    matches.set(entry, moved);
+  });
+
+  return matches;
+}
+
+// Saved meetings that changed or disappeared since they were last checked.
+// Only districts in `loadedDistricts` are checked; the rest weren't loaded.
+export function findSavedMeetingChanges(saved: SavedMeeting[], meetings: Meeting[], loadedDistricts: string[]): SavedMeetingChange[] {
+  const checked = saved.filter(entry => loadedDistricts.includes(entry.district));
+  const matches = matchSavedMeetings(checked, meetings);
+
+  return checked
+    .map(entry => {
+      const meeting = matches.get(entry) || null;
+      if (!meeting) return { saved: entry, meeting, changes: [] };
+      const snapshot = getSnapshot(meeting);
+      const changes = snapshotFields.filter(key => snapshot[key] !== entry.snapshot[key]);
+      return { saved: entry, meeting, changes };
+    })
+    .filter(change => !change.meeting || change.changes.length > 0);
+}
+
+// The saved list once the changes have been seen: changed meetings take their
+// new details (and ID, if they moved) and removed ones are dropped
+export function acknowledgeSavedMeetingChanges(saved: SavedMeeting[], changes: SavedMeetingChange[]): SavedMeeting[] {
+  return saved.flatMap(entry => {
+    const change = changes.find(candidate => candidate.saved.id === entry.id);
+    if (!change) return [entry];
+    return change.meeting ? [createSavedMeeting(change.meeting)] : [];
+  });
+}
@@ -0,0 +1,113 @@
+import { Meeting } from '../types/Meeting';
+
+// Fields searched, with how much a match in each counts towards relevance
+const searchFields: Array<{ field: keyof Meeting, weight: number }> = [
+  { field: 'name', weight: 5 },
+  { field: 'description', weight: 3 },
+  { field: 'address', weight: 2 },
+  { field: 'notes', weight: 1 },
+  { field: 'Contact', weight: 1 }
+];
+
+// Words too common to help, e.g. "the church on Congress St"
+const stopWords = new Set(['a', 'an', 'and', 'at', 'in', 'of', 'on', 'one', 'the', 'with']);
+
+// Lowercase a single character and strip its accents ("É" -> "e")
+function normalizeChar(char: string): string {
+  return char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Normalize text for matching, keeping a map from each normalized
+// character back to its position in the original text
+function normalizeWithOffsets(text: string): { normalized: string, offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  Array.from(text).reduce((position, char) => {
+    const folded = normalizeChar(char);
+    for (let i = 0; i < folded.length; i++) {
+      offsets.push(position);
+    }
+    normalized += folded;
+    return position + char.length;
+  }, 0);
+  offsets.push(text.length);
+  return { normalized, offsets };
+}
+
+export function getSearchTerms(query: string): string[] {
+  const terms = normalizeWithOffsets(query).normalized
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  const meaningful = terms.filter(term => !stopWords.has(term));
+  return meaningful.length > 0 ? meaningful : terms;
+}
+
+// Positions in `normalized` where `term` starts a word
+function findWordPrefixMatches(normalized: string, term: string): number[] {
+  const matches: number[] = [];
+  let index = normalized.indexOf(term);
+  while (index !== -1) {
+    if (index === 0 || !/[a-z0-9]/.test(normalized[index - 1])) {
+      matches.push(index);
+    }
+    index = normalized.indexOf(term, index + 1);
+  }
+  return matches;
+}
+
+// Ranges [start, end) of `text` matching any of the search terms
+export function getHighlightRanges(text: string, terms: string[]): Array<[number, number]> {
+  if (!text || terms.length === 0) return [];
+  const { normalized, offsets } = normalizeWithOffsets(text);
+  
+  const ranges: Array<[number, number]> = [];
+  terms.forEach(term => {
+    findWordPrefixMatches(normalized, term).forEach(index => {
+      ranges.push([offsets[index], offsets[index + term.length]]);
+    });
+  });
+  
+  // Merge overlapping ranges so each character is highlighted once
+  return ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce<Array<[number, number]>>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([range[0], range[1]]);
+      }
+      return merged;
+    }, []);
+}
+
+// Meetings matching at least one term, most relevant first: meetings matching
+// more of the terms come first, then those matching in more important fields
+export function searchMeetings(meetings: Meeting[], query: string): Meeting[] {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return meetings;
+  
+  const scored = meetings.map((meeting, index) => {
+    let matchedTerms = 0;
+    let score = 0;
+    
+    terms.forEach(term => {
+      let termScore = 0;
+      searchFields.forEach(({ field, weight }) => {
+        const value = meeting[field];
+        if (typeof value !== 'string' || !value) return;
+        const { normalized } = normalizeWithOffsets(value);
+        termScore += findWordPrefixMatches(normalized, term).length > 0 ? weight : 0;
+      });
+      if (termScore > 0) matchedTerms++;
+      score += termScore;
+    });
+    
+    return { meeting, index, matchedTerms, score };
+  });
+  
+  return scored
+    .filter(result => result.matchedTerms > 0)
+    .sort((a, b) => b.matchedTerms - a.matchedTerms || b.score - a.score || a.index - b.index)
+    .map(result => result.meeting);
+}
@@ -0,0 +1,85 @@
+import { SiteConfig, SiteText } from '../types/SiteConfig';
+import { siteConfig } from '../data/siteConfig';
+import { ALL_DISTRICTS } from '../data/districts';
+import { isValidTimeZone } from './timeZone';
+import type { Locale } from '../i18n';
+
+export const BRAND_COLOR = siteConfig.theme.brandColor;
+
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const DATA_FORMATS = ['csv', 'meeting-guide'];
+
+// Site text in the reader's language, or English when it has no translation
+export function getSiteText(text: SiteText, locale: Locale): string {
+  return typeof text === 'string' ? text : text[locale] || text.en;
+}
+
+function isCoordinate(value: unknown): value is [number, number] {
+  return Array.isArray(value)
+    && value.length === 2
+    && typeof value[0] === 'number' && Math.abs(value[0]) <= 90
+    && typeof value[1] === 'number' && Math.abs(value[1]) <= 180;
+}
+
+function isZoom(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 20;
+}
+
+function isSiteText(value: SiteText | undefined): boolean {
+  return typeof value === 'string' ? value.trim() !== '' : !!value?.en?.trim();
+}
+
+// Problems with a site config that would break the site or show nonsense,
+// e.g. "theme.brandColor: "navy" is not a hex color like #0d2357". Run by the
+// Vite plugin so a bad config fails the build rather than the deployed page.
+export function validateSiteConfig(config: SiteConfig): string[] {
+  const problems: string[] = [];
+  const report = (field: string, message: string) => problems.push(`${field}: ${message}`);
+
+  if (!config.name.trim()) report('name', 'is empty');
+  if (!config.shortName.trim()) report('shortName', 'is empty');
+  if (!config.faviconPath.startsWith('/')) report('faviconPath', `"${config.faviconPath}" should be a path in /public, starting with /`);
+  if (!isSiteText(config.title)) report('title', 'needs English text');
+  if (!isSiteText(config.subtitle)) report('subtitle', 'needs English text');
+
+  (['brandColor', 'primaryColor', 'secondaryColor'] as const)
+    .filter(key => !COLOR_PATTERN.test(config.theme[key]))
+    .forEach(key => report(`theme.${key}`, `"${config.theme[key]}" is not a hex color like #0d2357`));
+
+  if (!isCoordinate(config.map.center)) report('map.center', 'should be [latitude, longitude]');
+  if (!isZoom(config.map.zoom)) report('map.zoom', `${config.map.zoom} is not a zoom level from 0 to 20`);
+  const { urlTemplate } = config.map.tiles;
+  if (!/^https:\/\//.test(urlTemplate)) report('map.tiles.urlTemplate', 'should be an https:// URL');
+  ['{z}', '{x}', '{y}']
+    .filter(placeholder => !urlTemplate.includes(placeholder))
+    .forEach(placeholder => report('map.tiles.urlTemplate', `is missing ${placeholder}`));
+  if (!config.map.tiles.attribution.trim()) report('map.tiles.attribution', 'is empty; tile providers require a credit');
+
+  if (config.districts.length === 0) report('districts', 'lists no districts');
+  const seenIds = new Set<string>();
+  config.districts.forEach((district, index) => {
+    const field = `districts[${index}]${district.id ? ` (${district.id})` : ''}`;
+    if (!district.id.trim()) report(field, 'has no id');
+    if (district.id === ALL_DISTRICTS) report(field, `"${ALL_DISTRICTS}" is reserved for all districts`);
+    if (seenIds.has(district.id)) report(field, 'repeats an id used above');
+    seenIds.add(district.id);
+    if (!district.name.trim()) report(field, 'has no name');
+    if (!/^(\/|https?:\/\/)/.test(district.dataPath)) report(`${field}.dataPath`, 'should be a path in /public or a feed URL');
+    if (!DATA_FORMATS.includes(district.dataFormat)) report(`${field}.dataFormat`, `should be one of ${DATA_FORMATS.join(', ')}`);
+    if (!isValidTimeZone(district.timeZone)) report(`${field}.timeZone`, `unknown time zone "${district.timeZone}"`);
+    if (!isCoordinate(district.center)) report(`${field}.center`, 'should be [latitude, longitude]');
+    if (!isZoom(district.zoom)) report(`${field}.zoom`, `${district.zoom} is not a zoom level from 0 to 20`);
+  });
+
+  if (config.defaultDistrict !== ALL_DISTRICTS && !seenIds.has(config.defaultDistrict)) {
+    report('defaultDistrict', `"${config.defaultDistrict}" is not one of the districts or "${ALL_DISTRICTS}"`);
+  }
+
+  if (config.help) {
+    if (!isSiteText(config.help.text)) report('help.text', 'needs English text');
+    if (config.help.email && !/^[^\s@]+@[^\s@]+$/.test(config.help.email)) report('help.email', `"${config.help.email}" is not an email address`);
+    if (config.help.url && !/^https?:\/\//.test(config.help.url)) report('help.url', 'should start with http:// or https://');
+  }
+
+  return problems;
+}
@@ -0,0 +1,61 @@
+import { siteConfig } from '../data/siteConfig';
+
+// Base map used by every map in the app, from the site config. Maps request
+// tiles with CORS so the service worker can cache them at their real size.
+const { tiles } = siteConfig.map;
+export const TILE_URL_TEMPLATE = tiles.urlTemplate;
+export const TILE_ATTRIBUTION = tiles.attribution;
+
+// Leaflet's default subdomains; it picks one from the tile position
+export const TILE_SUBDOMAINS = tiles.subdomains || 'abc';
+
+// Host the service worker caches tiles from, e.g. "basemaps.cartocdn.com"
+export const TILE_HOST = new URL(TILE_URL_TEMPLATE.replace(/\{s\}\./, '').replace(/\{[^}]*\}/g, '0')).hostname;
+
+const TILE_SIZE = 256;
+
+// Area to keep offline around a district's center, in pixels at its default zoom
+const AREA_WIDTH = 1280;
+const AREA_HEIGHT = 960;
+
+// Tile position of a point at a zoom level (Web Mercator), as fractions
+function toTilePoint(lat: number, lng: number, zoom: number): [number, number] {
+  const scale = 2 ** zoom;
+  const x = (lng + 180) / 360 * scale;
+  const latRad = lat * Math.PI / 180;
+  const y = (1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * scale;
+  return [x, y];
+}
+
+// Fill in the template the same way Leaflet does, so cached tiles match its requests
+function getTileUrl(x: number, y: number, zoom: number): string {
+  const retina = typeof window !== 'undefined' && window.devicePixelRatio > 1;
+  return TILE_URL_TEMPLATE
+    .replace('{s}', TILE_SUBDOMAINS[Math.abs(x + y) % TILE_SUBDOMAINS.length])
+    .replace('{z}', String(zoom))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y))
+    .replace('{r}', retina ? '@2x' : '');
+}
+
+// URLs of the tiles covering the area around `center` from one zoom level
+// out to one zoom level in
+export function getAreaTileUrls(center: [number, number], zoom: number): string[] {
+  const urls: string[] = [];
+
+  for (let z = Math.max(0, zoom - 1); z <= zoom + 1; z++) {
+    const [cx, cy] = toTilePoint(center[0], center[1], z);
+    const scale = 2 ** (z - zoom);
+    const halfWidth = AREA_WIDTH / 2 / TILE_SIZE * scale;
+    const halfHeight = AREA_HEIGHT / 2 / TILE_SIZE * scale;
+    const max = 2 ** z - 1;
+
+    for (let x = Math.max(0, Math.floor(cx - halfWidth)); x <= Math.min(max, Math.floor(cx + halfWidth)); x++) {
+      for (let y = Math.max(0, Math.floor(cy - halfHeight)); y <= Math.min(max, Math.floor(cy + halfHeight)); y++) {
+        urls.push(getTileUrl(x, y, z));
+      }
+    }
+  }
+
+  return urls;
+}
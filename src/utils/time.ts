@@ -0,0 +1,109 @@
+import { TimeOfDay } from '../types/Meeting';
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Full "starts between" range, i.e. no time filtering
+export const FULL_DAY_RANGE: [number, number] = [0, MINUTES_PER_DAY];
+
+export interface ParsedTime {
+  start: number; // minutes since midnight
+  end: number | null; // minutes since midnight, null if only a start time is listed
+}
+
+interface ClockTime {
+  hours: number;
+  minutes: number;
+  meridiem: 'am' | 'pm' | null;
+}
+
+// Matches "7", "7:00", "7:00 PM", "11: 00 AM", "9:30am" and "9:30 p.m."
+const CLOCK_PATTERN = /^(\d{1,2})(?::\s?(\d{2}))?\s*(?:([ap])\.?m\.?)?$/i;
+
+// Separators seen between start and end: "10:00 - 11:00", "7:00- 8:00", "7 to 8"
+const RANGE_SEPARATOR = /\s*(?:-|–|—|\bto\b)\s*/i;
+
+function parseClockTime(text: string): ClockTime | null {
+  const match = text.trim().match(CLOCK_PATTERN);
+  if (!match) return null;
+  
+  const hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (hours < 1 || hours > 12 || minutes > 59) return null;
+  
+  const meridiem = match[3] ? (match[3].toLowerCase() === 'a' ? 'am' : 'pm') : null;
+  return { hours, minutes, meridiem };
+}
+
+function toMinutes(time: ClockTime, meridiem: 'am' | 'pm'): number {
+  return ((time.hours % 12) + (meridiem === 'pm' ? 12 : 0)) * 60 + time.minutes;
+}
+
+// Parse a free-text time like "10:00 - 11:00 AM" or "7:00 PM - 8:00 PM".
+// Returns null when the text can't be read unambiguously.
+export function parseTimeDisplay(timeDisplay: string): ParsedTime | null {
+  if (!timeDisplay || !timeDisplay.trim()) return null;
+  
+  const parts = timeDisplay.trim().split(RANGE_SEPARATOR);
+  if (parts.length > 2) return null;
+  
+  const start = parseClockTime(parts[0]);
+  const end = parts.length === 2 ? parseClockTime(parts[1]) : null;
+  if (!start || (parts.length === 2 && !end)) return null;
+  
+  if (!end) {
+    if (!start.meridiem) return null;
+    return { start: toMinutes(start, start.meridiem), end: null };
+  }
+  
+  // "10:00 - 11:00 AM" lists AM/PM once, so the start borrows it from the end
+  const endMeridiem = end.meridiem || start.meridiem;
+  if (!endMeridiem) return null;
+  const endMinutes = toMinutes(end, endMeridiem);
+  
+  if (start.meridiem) {
+    return { start: toMinutes(start, start.meridiem), end: endMinutes };
+  }
+  
+  // ...unless that would start after it ends, e.g. "11:00 - 12:30 PM"
+  let startMinutes = toMinutes(start, endMeridiem);
+  if (startMinutes > endMinutes) {
+    startMinutes = toMinutes(start, endMeridiem === 'pm' ? 'am' : 'pm');
+  }
+  return { start: startMinutes, end: endMinutes };
+}
+
+// Bucket a start time: before noon is morning, before 5 PM afternoon, then evening
+export function getTimeOfDay(minutes: number): TimeOfDay {
+  if (minutes < 12 * 60) return 'morning';
+  if (minutes < 17 * 60) return 'afternoon';
+  return 'evening';
+}
+
+// Format minutes since midnight as "7:00 PM"
+export function formatMinutes(minutes: number): string {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60);
+  const mins = normalized % 60;
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${mins.toString().padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+}
+
+export function isFullDayRange(range: [number, number]): boolean {
+  return range[0] <= FULL_DAY_RANGE[0] && range[1] >= FULL_DAY_RANGE[1];
+}
+
+export const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+// Days in display order; the week starts on Monday
+export const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// Monday-based index of a day name, or -1 if it isn't one
+export function getDayIndex(day: string): number {
+  return DAYS.indexOf((day || '').trim().toLowerCase());
+}
+
+// Minutes since Monday 12:00 AM for a point in time on the device clock
+export function getWeekMinute(date: Date): number {
+  const dayIndex = (date.getDay() + 6) % 7;
+  return dayIndex * MINUTES_PER_DAY + date.getHours() * 60 + date.getMinutes();
+}
@@ -0,0 +1,162 @@
+import { Meeting } from '../types/Meeting';
+import { DAYS, getDayIndex, MINUTES_PER_DAY, MINUTES_PER_WEEK } from './time';
+
+// A meeting's day and times as seen from some time zone
+export interface Schedule {
+  day: string; // lowercase day name
+  dayIndex: number; // Monday-based, see DAYS
+  startMinutes: number;
+  endMinutes: number | null;
+}
+
+// Calendar date and clock time at an instant in a given zone
+export interface ZonedTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  dayIndex: number; // Monday-based
+  minutes: number; // since midnight
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Building a formatter is slow next to using one, and filtering asks per meeting
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function getViewerTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getZonedTime(timeZone: string, date: Date): ZonedTime {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value || '';
+
+  return {
+    year: parseInt(get('year'), 10),
+    month: parseInt(get('month'), 10),
+    day: parseInt(get('day'), 10),
+    dayIndex: WEEKDAYS.indexOf(get('weekday')),
+    minutes: (parseInt(get('hour'), 10) % 24) * 60 + parseInt(get('minute'), 10)
+  };
+}
+
+// Minutes a zone is ahead of UTC at an instant (negative west of Greenwich)
+export function getZoneOffset(timeZone: string, date: Date): number {
+  const zoned = getZonedTime(timeZone, date);
+  const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, 0, zoned.minutes);
+  const instant = Math.floor(date.getTime() / 60000) * 60000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+// A change of UTC offset, e.g. the start of daylight saving time
+export interface ZoneTransition {
+  at: Date; // first instant on the new offset
+  offsetFrom: number; // minutes ahead of UTC, see getZoneOffset
+  offsetTo: number;
+}
+
+// The zone's offset changes during a year, found by checking each day and then
+// narrowing down to the minute; empty for zones without daylight saving time
+export function getZoneTransitions(timeZone: string, year: number): ZoneTransition[] {
+  const transitions: ZoneTransition[] = [];
+  let before = Date.UTC(year, 0, 1);
+  let offset = getZoneOffset(timeZone, new Date(before));
+
+  for (let day = 1; day <= 366; day++) {
+    const after = Date.UTC(year, 0, 1 + day);
+    const nextOffset = getZoneOffset(timeZone, new Date(after));
+    if (nextOffset !== offset) {
+      let low = before;
+      let high = after;
+      while (high - low > 60000) {
+        const middle = Math.floor((low + high) / 120000) * 60000;
+        if (getZoneOffset(timeZone, new Date(middle)) === offset) low = middle;
+        else high = middle;
+      }
+      transitions.push({ at: new Date(high), offsetFrom: offset, offsetTo: nextOffset });
+      offset = nextOffset;
+    }
+    before = after;
+  }
+  return transitions;
+}
+
+// Short zone name for display, e.g. "EDT" or "GMT+1"
+export function formatZoneName(timeZone: string, date: Date): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date);
+  return parts.find(part => part.type === 'timeZoneName')?.value || timeZone;
+}
+
+// The meeting's schedule in its own zone, or null if its day or time couldn't be read
+export function getMeetingSchedule(meeting: Meeting): Schedule | null {
+  const dayIndex = getDayIndex(meeting.day);
+  if (dayIndex === -1 || meeting.startMinutes === null) return null;
+  return { day: DAYS[dayIndex], dayIndex, startMinutes: meeting.startMinutes, endMinutes: meeting.endMinutes };
+}
+
+// The meeting's schedule moved into the viewer's zone, using the zones' offsets at `now`
+export function getViewerSchedule(meeting: Meeting, now: Date, viewerTimeZone = getViewerTimeZone()): Schedule | null {
+  const schedule = getMeetingSchedule(meeting);
+  if (!schedule) return null;
+
+  const shift = getZoneOffset(viewerTimeZone, now) - getZoneOffset(meeting.timeZone, now);
+  if (shift === 0) return schedule;
+
+  const weekStart = ((schedule.dayIndex * MINUTES_PER_DAY + schedule.startMinutes + shift) % MINUTES_PER_WEEK + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+  const dayIndex = Math.floor(weekStart / MINUTES_PER_DAY);
+  return {
+    day: DAYS[dayIndex],
+    dayIndex,
+    startMinutes: weekStart % MINUTES_PER_DAY,
+    endMinutes: schedule.endMinutes === null
+      ? null
+      : ((schedule.endMinutes + shift) % MINUTES_PER_DAY + MINUTES_PER_DAY) % MINUTES_PER_DAY
+  };
+}
+
+// Virtual and hybrid meetings are joined from wherever the viewer is, so they're
+// scheduled on the viewer's clock; in-person meetings keep their own local time
+export function isJoinedRemotely(meeting: Meeting): boolean {
+  return meeting.type === 'virtual' || meeting.type === 'hybrid';
+}
+
+// Schedule used by the day and time filters
+export function getFilterSchedule(meeting: Meeting, now: Date): Schedule | null {
+  return isJoinedRemotely(meeting) ? getViewerSchedule(meeting, now) : getMeetingSchedule(meeting);
+}
+
+// Whether the viewer's clock differs from the meeting's at `now`
+export function isInOtherTimeZone(meeting: Meeting, now: Date): boolean {
+  return getZoneOffset(getViewerTimeZone(), now) !== getZoneOffset(meeting.timeZone, now);
+}
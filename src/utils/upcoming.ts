@@ -0,0 +1,63 @@
+import { Meeting } from '../types/Meeting';
+import { getWeekMinute, MINUTES_PER_DAY, MINUTES_PER_WEEK } from './time';
+import { Locale, translate, formatDuration } from '../i18n';
+import { getViewerSchedule } from './timeZone';
+
+// Assumed length of a meeting whose timeDisplay has no end time
+const DEFAULT_DURATION = 60;
+
+export interface UpcomingMeeting {
+  meeting: Meeting;
+  inProgress: boolean;
+  minutesUntilStart: number; // 0 once the meeting has started
+  minutesUntilEnd: number;
+}
+
+function getDuration(meeting: Meeting): number {
+  if (meeting.startMinutes === null) return DEFAULT_DURATION;
+  if (meeting.endMinutes === null) return DEFAULT_DURATION;
+  // An end before the start means the meeting runs past midnight
+  return (meeting.endMinutes - meeting.startMinutes + MINUTES_PER_DAY) % MINUTES_PER_DAY || DEFAULT_DURATION;
+}
+
+// Meetings in progress at `now` or starting within `windowMinutes`, soonest first.
+// Times are compared on a weekly cycle, so late Sunday searches wrap into Monday,
+// after moving each meeting onto the device's clock from its own time zone.
+export function findUpcomingMeetings(meetings: Meeting[], now: Date, windowMinutes: number): UpcomingMeeting[] {
+  const nowMinute = getWeekMinute(now);
+  const upcoming: UpcomingMeeting[] = [];
+  
+  meetings.forEach(meeting => {
+    const schedule = getViewerSchedule(meeting, now);
+    if (!schedule) return;
+    
+    const weekStart = schedule.dayIndex * MINUTES_PER_DAY + schedule.startMinutes;
+    const duration = getDuration(meeting);
+    const sinceStart = (nowMinute - weekStart + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+    
+    if (sinceStart < duration) {
+      upcoming.push({ meeting, inProgress: true, minutesUntilStart: 0, minutesUntilEnd: duration - sinceStart });
+      return;
+    }
+    
+    const untilStart = (weekStart - nowMinute + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+    if (untilStart <= windowMinutes) {
+      upcoming.push({ meeting, inProgress: false, minutesUntilStart: untilStart, minutesUntilEnd: untilStart + duration });
+    }
+  });
+  
+  // In-progress meetings first (earliest started first), then by time until start
+  return upcoming.sort((a, b) => {
+    const aKey = a.inProgress ? a.minutesUntilEnd - getDuration(a.meeting) : a.minutesUntilStart;
+    const bKey = b.inProgress ? b.minutesUntilEnd - getDuration(b.meeting) : b.minutesUntilStart;
+    return aKey - bKey;
+  });
+}
+
+// Countdown text shown next to a meeting in "happening now" mode
+export function formatCountdown(upcoming: UpcomingMeeting, locale: Locale): string {
+  if (upcoming.inProgress) {
+    return translate(locale, 'now.inProgress', { duration: formatDuration(upcoming.minutesUntilEnd, locale) });
+  }
+  return translate(locale, 'now.startsIn', { duration: formatDuration(upcoming.minutesUntilStart, locale) });
+}
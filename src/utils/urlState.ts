@@ -0,0 +1,142 @@
+import { TimeOfDay, MeetingType, Amenity } from '../types/Meeting';
+import { FULL_DAY_RANGE, DAYS } from './time';
+import { AMENITIES } from './amenities';
+
+// How results are shown: map beside a list, or a week calendar
+export type ResultsView = 'map' | 'week';
+
+// Everything needed to reproduce the current view from a link
+export interface UrlState {
+  district: string;
+  query: string;
+  day: string[]; // lowercase day names
+  time: TimeOfDay[];
+  type: MeetingType[];
+  format: string[]; // lowercase format tags
+  amenity: Amenity[];
+  lang: string[]; // language codes
+  startRange: [number, number];
+  happeningNow: boolean;
+  nowWindow: number;
+  mine: boolean; // only meetings saved in this browser
+  meeting: string; // id of the meeting whose popup is open
+  view: ResultsView;
+}
+
+const timesOfDay: TimeOfDay[] = ['morning', 'afternoon', 'evening'];
+const meetingTypes: MeetingType[] = ['in-Person', 'virtual', 'hybrid'];
+
+export function getDefaultUrlState(district: string): UrlState {
+  return {
+    district,
+    query: '',
+    day: [],
+    time: [],
+    type: [],
+    format: [],
+    amenity: [],
+    lang: [],
+    startRange: FULL_DAY_RANGE,
+    happeningNow: false,
+    nowWindow: 60,
+    mine: false,
+    meeting: '',
+    view: 'map'
+  };
+}
+
+// "19:30" <-> minutes since midnight
+function formatClock(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+function parseClock(value: string | null): number | null {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  return minutes >= FULL_DAY_RANGE[0] && minutes <= FULL_DAY_RANGE[1] ? minutes : null;
+}
+
+// Multi-select filters are written as comma-separated lists: ?day=tuesday,thursday
+function readList(params: URLSearchParams, name: string): string[] {
+  return (params.get(name) || '')
+    .split(',')
+    .map(value => value.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Read view state from a query string, ignoring anything malformed
+export function readUrlState(search: string, defaults: UrlState): UrlState {
+  const params = new URLSearchParams(search);
+  const state = { ...defaults };
+  
+  const district = params.get('district');
+  if (district) state.district = district;
+  
+  const query = params.get('q');
+  if (query) state.query = query;
+  
+  const days = readList(params, 'day').filter(day => DAYS.includes(day));
+  if (days.length > 0) state.day = days;
+  
+  const times = timesOfDay.filter(time => readList(params, 'time').includes(time));
+  if (times.length > 0) state.time = times;
+  
+  const types = meetingTypes.filter(type => readList(params, 'type').includes(type.toLowerCase()));
+  if (types.length > 0) state.type = types;
+  
+  const formats = readList(params, 'format');
+  if (formats.length > 0) state.format = formats;
+  
+  const amenities = AMENITIES
+    .map(amenity => amenity.key)
+    .filter(amenity => readList(params, 'amenity').includes(amenity.toLowerCase()));
+  if (amenities.length > 0) state.amenity = amenities;
+  
+  const languages = readList(params, 'lang');
+  if (languages.length > 0) state.lang = languages;
+  
+  const from = parseClock(params.get('from'));
+  const to = parseClock(params.get('to'));
+  if (from !== null || to !== null) {
+    state.startRange = [from ?? FULL_DAY_RANGE[0], to ?? FULL_DAY_RANGE[1]];
+  }
+  
+  state.happeningNow = params.get('now') === '1';
+  const within = parseInt(params.get('within') || '', 10);
+  if (within > 0) state.nowWindow = within;
+  
+  state.mine = params.get('mine') === '1';
+  
+  const meeting = params.get('meeting');
+  if (meeting) state.meeting = meeting;
+  
+  if (params.get('view') === 'week') state.view = 'week';
+  
+  return state;
+}
+
+// Write view state as a query string, leaving out values that match the defaults
+export function writeUrlState(state: UrlState, defaults: UrlState): string {
+  const params = new URLSearchParams();
+  
+  if (state.district !== defaults.district) params.set('district', state.district);
+  if (state.query.trim()) params.set('q', state.query.trim());
+  if (state.day.length > 0) params.set('day', state.day.join(','));
+  if (state.time.length > 0) params.set('time', state.time.join(','));
+  if (state.type.length > 0) params.set('type', state.type.join(','));
+  if (state.format.length > 0) params.set('format', state.format.join(','));
+  if (state.amenity.length > 0) params.set('amenity', state.amenity.join(','));
+  if (state.lang.length > 0) params.set('lang', state.lang.join(','));
+  if (state.startRange[0] !== FULL_DAY_RANGE[0]) params.set('from', formatClock(state.startRange[0]));
+  if (state.startRange[1] !== FULL_DAY_RANGE[1]) params.set('to', formatClock(state.startRange[1]));
+  if (state.happeningNow) params.set('now', '1');
+  if (state.happeningNow && state.nowWindow !== defaults.nowWindow) params.set('within', state.nowWindow.toString());
+  if (state.mine) params.set('mine', '1');
+  if (state.meeting) params.set('meeting', state.meeting);
+  if (state.view !== defaults.view) params.set('view', state.view);
+  
+  // Commas are safe in a query string; keep lists readable
+  const query = params.toString().replace(/%2C/gi, ',');
+  return query ? `?${query}` : '';
+}
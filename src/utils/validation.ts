@@ -0,0 +1,167 @@
+import { MeetingType, TimeOfDay } from '../types/Meeting';
+import { DAYS, parseTimeDisplay, getTimeOfDay } from './time';
+import { parseVirtualAccess } from './virtualAccess';
+import { getFormatTags } from './filterOptions';
+import { isValidTimeZone } from './timeZone';
+import { AMENITIES, isAmenityValue } from './amenities';
+import { LANGUAGE_COLUMN, getUnknownLanguages } from './languages';
+import { MessageKey, MessageParams, translate } from '../i18n';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  row: number; // 1-based data row, not counting the header
+  meetingName: string;
+  field: string;
+  severity: IssueSeverity;
+  message: string; // in English, for the CLI report
+  messageKey: MessageKey; // for showing the message in the reader's language
+  messageParams: MessageParams;
+}
+
+// The columns and values a district CSV is expected to use
+export const meetingCsvSchema = {
+  requiredColumns: ['name', 'day', 'timeDisplay', 'type'],
+  optionalColumns: [
+    'id', 'description', 'time', 'address', 'Contact', 'Zoomid', 'Notes', 'format',
+    'platform', 'meetingId', 'passcode', 'joinUrl', 'dialIn', 'timeZone', LANGUAGE_COLUMN,
+    ...AMENITIES.map(amenity => amenity.column)
+  ],
+  days: DAYS,
+  times: ['morning', 'afternoon', 'evening'] as TimeOfDay[],
+  types: ['in-Person', 'virtual', 'hybrid'] as MeetingType[],
+  amenityValues: ['Yes', 'No'], // blank means unknown
+  formats: ['Regular', 'Beginner', 'Speaker', 'Step Study', 'Literature', 'Discussion'] // the format column may list several, comma-separated
+};
+
+// Replacement characters and typical UTF-8-read-as-Latin-1 sequences ("Ã©", "â€™")
+const BAD_ENCODING_PATTERN = /\uFFFD|Ã[\u0080-\u00BF]|â€/;
+
+function isBlankRow(row: Record<string, string>): boolean {
+  return Object.values(row).every(value => !value || !value.trim());
+}
+
+function normalize(value: string | undefined): string {
+  return (value || '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// Check parsed CSV rows (Papa.parse with header: true) against meetingCsvSchema
+export function validateMeetingRows(rows: Record<string, string>[], columns: string[] = []): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  meetingCsvSchema.requiredColumns
+    .filter(column => columns.length > 0 && !columns.includes(column))
+    .forEach(column => {
+      const messageParams = { column };
+      issues.push({
+        row: 0, meetingName: '', field: column, severity: 'error',
+        message: translate('en', 'issue.missingColumn', messageParams), messageKey: 'issue.missingColumn', messageParams
+      });
+    });
+  
+  const seen = new Map<string, number>();
+  const seenIds = new Map<string, number>();
+  
+  rows.forEach((row, index) => {
+    if (!row || isBlankRow(row)) return;
+    
+    const rowNumber = index + 1;
+    const meetingName = (row.name || '').trim();
+    const report = (field: string, severity: IssueSeverity, messageKey: MessageKey, messageParams: MessageParams = {}) => {
+      issues.push({ row: rowNumber, meetingName, field, severity, message: translate('en', messageKey, messageParams), messageKey, messageParams });
+    };
+    
+    if (!meetingName) {
+      report('name', 'error', 'issue.noName');
+    }
+    
+    const day = (row.day || '').trim();
+    if (!day) {
+      report('day', 'error', 'issue.noDay');
+    } else if (!meetingCsvSchema.days.includes(day.toLowerCase())) {
+      report('day', 'error', 'issue.unknownDay', { day });
+    }
+    
+    const parsedTime = parseTimeDisplay(row.timeDisplay || '');
+    if (!parsedTime) {
+      report('timeDisplay', 'error', 'issue.badTime', { time: row.timeDisplay || '' });
+    }
+    
+    const time = (row.time || '').trim();
+    if (time && !meetingCsvSchema.times.includes(time as TimeOfDay)) {
+      report('time', 'error', 'issue.unknownTimeOfDay', { time, expected: meetingCsvSchema.times.join(', ') });
+    } else if (time && parsedTime && getTimeOfDay(parsedTime.start) !== time) {
+      report('time', 'warning', 'issue.timeOfDayMismatch', { time, timeDisplay: row.timeDisplay, actual: getTimeOfDay(parsedTime.start) });
+    }
+    
+    const type = (row.type || '').trim();
+    const matchingType = meetingCsvSchema.types.find(value => value.toLowerCase() === type.toLowerCase());
+    if (!type) {
+      report('type', 'error', 'issue.noType');
+    } else if (!matchingType) {
+      report('type', 'error', 'issue.unknownType', { type, expected: meetingCsvSchema.types.join(', ') });
+    } else if (matchingType !== type) {
+      report('type', 'warning', 'issue.typeSpelling', { type, expected: matchingType });
+    }
+    
+    const timeZone = (row.timeZone || '').trim();
+    if (timeZone && !isValidTimeZone(timeZone)) {
+      report('timeZone', 'error', 'issue.unknownTimeZone', { timeZone });
+    }
+    
+    AMENITIES
+      .filter(({ column }) => !isAmenityValue(row[column]))
+      .forEach(({ column }) => {
+        report(column, 'warning', 'issue.unknownAmenity', { value: row[column] });
+      });
+    
+    getUnknownLanguages(row[LANGUAGE_COLUMN]).forEach(name => {
+      report(LANGUAGE_COLUMN, 'warning', 'issue.unknownLanguage', { language: name });
+    });
+    
+    // New formats are allowed; an unfamiliar one is flagged in case it's a typo
+    getFormatTags(row.format)
+      .filter(tag => !meetingCsvSchema.formats.some(value => value.toLowerCase() === tag.toLowerCase()))
+      .forEach(tag => {
+        report('format', 'warning', 'issue.unfamiliarFormat', { format: tag, expected: meetingCsvSchema.formats.join(', ') });
+      });
+    
+    if ((matchingType === 'in-Person' || matchingType === 'hybrid') && !(row.address || '').trim()) {
+      report('address', 'error', matchingType === 'hybrid' ? 'issue.hybridNoAddress' : 'issue.inPersonNoAddress');
+    }
+    
+    if ((matchingType === 'virtual' || matchingType === 'hybrid') && !parseVirtualAccess(row)) {
+      report('joinUrl', 'warning', matchingType === 'hybrid' ? 'issue.hybridNoAccess' : 'issue.virtualNoAccess');
+    }
+    
+    Object.entries(row).forEach(([field, value]) => {
+      if (value && BAD_ENCODING_PATTERN.test(value)) {
+        report(field, 'warning', 'issue.garbled', { value: value.replace(/\s+/g, ' ').trim() });
+      }
+    });
+    
+    const id = (row.id || '').trim();
+    if (id && seenIds.has(id.toLowerCase())) {
+      report('id', 'error', 'issue.duplicateId', { row: seenIds.get(id.toLowerCase())! });
+    } else if (id) {
+      seenIds.set(id.toLowerCase(), rowNumber);
+    }
+    
+    const duplicateKey = [row.name, row.day, row.timeDisplay, row.address].map(normalize).join('|');
+    if (seen.has(duplicateKey)) {
+      report('name', 'warning', 'issue.duplicateRow', { row: seen.get(duplicateKey)! });
+    } else {
+      seen.set(duplicateKey, rowNumber);
+    }
+  });
+  
+  return issues;
+}
+
+// "row 3 (Peaks Island AFG), day: Unknown day "Mon""
+export function formatIssue(issue: ValidationIssue): string {
+  const location = issue.row === 0
+    ? 'header'
+    : `row ${issue.row}${issue.meetingName ? ` (${issue.meetingName})` : ''}`;
+  return `${location}, ${issue.field}: ${issue.message}`;
+}
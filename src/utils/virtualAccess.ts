@@ -0,0 +1,131 @@
+import { VirtualAccess, VirtualPlatform, PhoneDialIn } from '../types/Meeting';
+
+const platformLabels: Record<VirtualPlatform, string> = {
+  'zoom': 'Zoom',
+  'google-meet': 'Google Meet',
+  'teams': 'Microsoft Teams',
+  'other': 'Online'
+};
+
+const platformHosts: Array<{ platform: VirtualPlatform, pattern: RegExp }> = [
+  { platform: 'zoom', pattern: /(^|\.)zoom\.us$/i },
+  { platform: 'google-meet', pattern: /^meet\.google\.com$/i },
+  { platform: 'teams', pattern: /^teams\.(microsoft|live)\.com$/i }
+];
+
+// "Zoom ID: 639 218 3871", "ID number 884 9782 9798", "Meeting ID 85986256105"
+const MEETING_ID_PATTERN = /\bID(?:\s*(?:number|#))?\s*:?\s*(\d(?:[\s-]?\d){8,10})(?!\d)/i;
+// "Passcode: 125739", "Password:  544319", "pwd 1234"
+const PASSCODE_PATTERN = /\b(?:pass(?:code|word)|pwd)\s*:?\s*([A-Za-z0-9]+)/i;
+const URL_PATTERN = /https?:\/\/[^\s,;)]+/gi;
+// "Dial-in: +1 646 931 3860", "Call in (301) 715-8592"
+const DIAL_IN_PATTERN = /\b(?:dial[\s-]?in|call[\s-]?in|by phone)\b[^\d+]*(\+?1?[\s.-]?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4})/gi;
+
+export function getPlatformLabel(platform: VirtualPlatform): string {
+  return platformLabels[platform];
+}
+
+function detectPlatform(url: string): VirtualPlatform {
+  try {
+    const host = new URL(url).hostname;
+    return platformHosts.find(({ pattern }) => pattern.test(host))?.platform || 'other';
+  } catch {
+    return 'other';
+  }
+}
+
+function parsePlatform(value: string): VirtualPlatform | null {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return null;
+  if (normalized.includes('zoom')) return 'zoom';
+  if (normalized.includes('meet')) return 'google-meet';
+  if (normalized.includes('teams')) return 'teams';
+  return 'other';
+}
+
+function parseDialIns(value: string): PhoneDialIn[] {
+  return value
+    .split(/[;\n]/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      // "Maryland: +1 301 715 8592" keeps its label
+      const [label, number] = part.includes(':') ? part.split(/:(.+)/) : ['', part];
+      return { number: number.trim(), label: label.trim() || undefined };
+    });
+}
+
+// Build a Zoom join link from the meeting ID and passcode
+function createZoomJoinUrl(meetingId: string, passcode?: string): string {
+  return passcode
+    ? `https://zoom.us/j/${meetingId}?pwd=${passcode}`
+    : `https://zoom.us/j/${meetingId}`;
+}
+
+// Structured access details from a CSV row. The platform, meetingId, passcode,
+// joinUrl and dialIn columns win; otherwise the free-text Zoomid, Notes and
+// description columns are searched the way older CSVs wrote them.
+export function parseVirtualAccess(row: Record<string, any>): VirtualAccess | null {
+  const text = [row.Zoomid, row.zoomId, row.Notes, row.notes, row.description]
+    .filter(value => typeof value === 'string' && value.trim())
+    .join('\n');
+  
+  const textUrl = (text.match(URL_PATTERN) || []).find(url => detectPlatform(url) !== 'other');
+  const joinUrl = (row.joinUrl || '').trim() || textUrl || '';
+  const meetingId = ((row.meetingId || '').trim() || text.match(MEETING_ID_PATTERN)?.[1] || '').replace(/\D/g, '');
+  const passcode = (row.passcode || '').trim() || text.match(PASSCODE_PATTERN)?.[1] || '';
+  const dialIn = row.dialIn
+    ? parseDialIns(row.dialIn)
+    : Array.from(text.matchAll(DIAL_IN_PATTERN)).map(match => ({ number: match[1].trim() }));
+  
+  const platform = parsePlatform(row.platform || '')
+    || (joinUrl ? detectPlatform(joinUrl) : null)
+    || (/zoom/i.test(text) && meetingId ? 'zoom' : null);
+  
+  if (!platform && dialIn.length === 0) return null;
+  
+  // Keep the Zoomid column's other remarks rather than dropping them
+  const notes = String(row.Zoomid || row.zoomId || '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !MEETING_ID_PATTERN.test(line) && !PASSCODE_PATTERN.test(line))
+    .join('\n');
+  
+  return {
+    platform: platform || 'other',
+    meetingId: meetingId || undefined,
+    passcode: passcode || undefined,
+    joinUrl: joinUrl || (platform === 'zoom' && meetingId ? createZoomJoinUrl(meetingId, passcode) : undefined),
+    dialIn,
+    notes: notes || undefined
+  };
+}
+
+// Group a meeting ID the way Zoom prints it: "639 218 3871"
+export function formatMeetingId(meetingId: string): string {
+  const groups = meetingId.length === 11 ? [3, 4, 4] : meetingId.length === 10 ? [3, 3, 4] : [3, 3, 3];
+  let position = 0;
+  return groups
+    .map(size => {
+      const part = meetingId.slice(position, position + size);
+      position += size;
+      return part;
+    })
+    .concat(meetingId.slice(position))
+    .filter(Boolean)
+    .join(' ');
+}
+
+// One-tap dial link that enters the meeting ID and passcode after the call connects
+export function createDialInLink(dialIn: PhoneDialIn, access: VirtualAccess): string {
+  const number = dialIn.number.replace(/[^\d+]/g, '');
+  const withCountryCode = number.startsWith('+') ? number : `+${number.length === 10 ? '1' : ''}${number}`;
+  let link = `tel:${withCountryCode}`;
+  if (access.meetingId) {
+    link += `,,${access.meetingId}%23`;
+    if (access.passcode) {
+      link += `,,,,*${access.passcode}%23`;
+    }
+  }
+  return link;
+}
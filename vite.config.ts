@@ -1,9 +1,71 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
-import { resolve } from 'path';
+import { resolve, extname } from 'path';
+import { siteConfig } from './src/data/siteConfig';
+import { validateSiteConfig } from './src/utils/siteConfig';
+
+const ICON_TYPES: Record<string, string> = {
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon'
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function buildManifest(): string {
+  return JSON.stringify({
+    name: siteConfig.name,
+    short_name: siteConfig.shortName,
+    description: siteConfig.description,
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: siteConfig.theme.brandColor,
+    icons: [{
+      src: siteConfig.faviconPath,
+      sizes: 'any',
+      type: ICON_TYPES[extname(siteConfig.faviconPath).toLowerCase()] || 'image/png',
+      purpose: 'any'
+    }]
+  }, null, 2);
+}
+
+// Checks src/data/siteConfig.ts before building, fills its name, description,
+// favicon and color into index.html, and serves the web app manifest from it
+function siteConfigPlugin(): Plugin {
+  return {
+    name: 'site-config',
+    buildStart() {
+      const problems = validateSiteConfig(siteConfig);
+      if (problems.length > 0) {
+        this.error(`src/data/siteConfig.ts has ${problems.length} problem(s):\n  ${problems.join('\n  ')}`);
+      }
+    },
+    transformIndexHtml: {
+      order: 'pre',
+      handler: html => html
+        .replace(/%SITE_NAME%/g, escapeHtml(siteConfig.name))
+        .replace(/%SITE_DESCRIPTION%/g, escapeHtml(siteConfig.description))
+        .replace(/%SITE_FAVICON%/g, escapeHtml(siteConfig.faviconPath))
+        .replace(/%SITE_THEME_COLOR%/g, siteConfig.theme.brandColor)
+    },
+    configureServer(server) {
+      server.middlewares.use('/manifest.webmanifest', (_req, res) => {
+        res.setHeader('Content-Type', 'application/manifest+json');
+        res.end(buildManifest());
+      });
+    },
+    generateBundle() {
+      this.emitFile({ type: 'asset', fileName: 'manifest.webmanifest', source: buildManifest() });
+    }
+  };
+}
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), siteConfigPlugin()],
   base: '/',
   server: {
     port: 3000,